@@ -1,12 +1,21 @@
 import { test, it, afterEach } from 'node:test'
 import assert from 'node:assert'
 import { startServer } from './api'
+import { testConfig } from './test-config'
+import { checkResponse, openApiDocument } from './openapi'
 
 const pageSize = 10
 
 const endpoints = {
   users: 'http://localhost:3003/users',
   roles: 'http://localhost:3003/roles',
+  permissions: 'http://localhost:3003/permissions',
+  auditEvents: 'http://localhost:3003/audit-events',
+  events: 'http://localhost:3003/events',
+  openApi: 'http://localhost:3003/openapi.json',
+  organizations: 'http://localhost:3003/organizations',
+  chaos: 'http://localhost:3003/admin/chaos',
+  admin: 'http://localhost:3003/admin',
 }
 
 function getFetchOptions(method: string, body?: unknown) {
@@ -21,13 +30,51 @@ function getFetchOptions(method: string, body?: unknown) {
     : { method }
 }
 
-const server = await startServer({
-  port: 3003,
-  speed: 'instant',
-  requestLogging: false,
-  pageSize: 10,
-  chanceOfServerError: 0,
-})
+// Every response the tests receive is checked against the OpenAPI document, so the two can't drift apart
+async function fetch(url: string, init: RequestInit = {}) {
+  const response = await globalThis.fetch(url, init)
+  const contentType = response.headers.get('content-type')
+  // Streams and downloads are left unread, so only their content type is checked
+  const body = contentType?.startsWith('application/json') ? await response.clone().text() : ''
+  const method = init.method ?? 'GET'
+  assert.deepStrictEqual(checkResponse(method, new URL(url).pathname, response.status, contentType, body), [])
+  return response
+}
+
+async function readEvents(response: Response, count: number) {
+  const reader = (response.body as ReadableStream<Uint8Array>).getReader()
+  const decoder = new TextDecoder()
+  const events: { id: string; event: string; data: any }[] = []
+  let buffer = ''
+  while (events.length < count) {
+    const { value, done } = await reader.read()
+    if (done) {
+      break
+    }
+
+    buffer += decoder.decode(value, { stream: true })
+    let index
+    while ((index = buffer.indexOf('\n\n')) !== -1) {
+      const fields = Object.fromEntries(
+        buffer
+          .slice(0, index)
+          .split('\n')
+          .filter((line) => !line.startsWith(':'))
+          .map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)])
+      )
+      buffer = buffer.slice(index + 2)
+      if (fields.event) {
+        events.push({ id: fields.id, event: fields.event, data: JSON.parse(fields.data) })
+      }
+    }
+  }
+
+  return events
+}
+
+const config = { ...testConfig, port: 3003 }
+
+const server = await startServer(config)
 
 await test('API', async () => {
   // ----------
@@ -35,6 +82,8 @@ await test('API', async () => {
   // ----------
 
   await test('GET /users', async () => {
+    afterEach(() => server.reset())
+
     await it('returns the 1st page of users by default', async () => {
       const response = await fetch(endpoints.users)
       const pagedData = await response.json()
@@ -55,6 +104,97 @@ await test('API', async () => {
       assert.strictEqual(pagedData.pages, 2)
     })
 
+    await it('returns a page of the given size', async () => {
+      const response = await fetch(endpoints.users + '?limit=4&page=2')
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data.length, 4)
+      assert.strictEqual(pagedData.next, 3)
+      assert.strictEqual(pagedData.prev, 1)
+      assert.strictEqual(pagedData.pages, 4)
+      assert.strictEqual(pagedData.total, 16)
+    })
+
+    await it('clamps the page size to the maximum', async () => {
+      const response = await fetch(endpoints.users + '?limit=1000')
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data.length, 15)
+      assert.strictEqual(pagedData.pages, 2)
+    })
+
+    await it('returns the next and previous pages by cursor', async () => {
+      const firstResponse = await fetch(endpoints.users + '?sort=first&limit=5')
+      const firstPage = await firstResponse.json()
+
+      assert.strictEqual(firstPage.prevCursor, null)
+
+      const secondResponse = await fetch(endpoints.users + '?limit=5&cursor=' + firstPage.nextCursor)
+      const secondPage = await secondResponse.json()
+
+      assert.strictEqual(secondPage.data.length, 5)
+      assert.strictEqual(secondPage.data[0].first, 'Kirsten')
+      assert.strictEqual(secondPage.next, null)
+      assert.strictEqual(secondPage.prev, null)
+      assert.strictEqual(secondPage.total, 16)
+
+      const prevResponse = await fetch(endpoints.users + '?limit=5&cursor=' + secondPage.prevCursor)
+      const prevPage = await prevResponse.json()
+
+      assert.deepStrictEqual(prevPage.data, firstPage.data)
+      assert.strictEqual(prevPage.prevCursor, null)
+    })
+
+    await it('returns stable cursor pages when users are created or deleted', async () => {
+      const firstResponse = await fetch(endpoints.users + '?limit=5')
+      const firstPage = await firstResponse.json()
+
+      await fetch(endpoints.users + '/' + firstPage.data[0].id, getFetchOptions('DELETE'))
+      await fetch(
+        endpoints.users,
+        getFetchOptions('POST', {
+          first: 'Sue',
+          last: 'Tran',
+          email: 'sue.tran@example.com',
+          roleId: '1a235261-fa93-4845-ab48-ee23895998e6',
+        })
+      )
+
+      const secondResponse = await fetch(endpoints.users + '?limit=5&cursor=' + firstPage.nextCursor)
+      const secondPage = await secondResponse.json()
+
+      const allResponse = await fetch(endpoints.users + '?limit=15')
+      const allUsers = await allResponse.json()
+      const ids = allUsers.data.map((user: { id: string }) => user.id)
+      const lastIndex = ids.indexOf(firstPage.data[4].id)
+
+      assert.deepStrictEqual(
+        secondPage.data.map((user: { id: string }) => user.id),
+        ids.slice(lastIndex + 1, lastIndex + 6)
+      )
+    })
+
+    await it('returns 400 if cursor is invalid', async () => {
+      const response = await fetch(endpoints.users + '?cursor=not-a-cursor')
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Invalid cursor')
+    })
+
+    await it('returns 400 if cursor does not match the sort order', async () => {
+      const firstResponse = await fetch(endpoints.users + '?sort=first&limit=5')
+      const firstPage = await firstResponse.json()
+
+      const response = await fetch(endpoints.users + '?sort=last&cursor=' + firstPage.nextCursor)
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Invalid cursor')
+    })
+
     await it('returns a filtered page of users', async () => {
       const response = await fetch(endpoints.users + '?search=Mark')
       const pagedData = await response.json()
@@ -62,6 +202,193 @@ await test('API', async () => {
       assert.strictEqual(pagedData.data.length, 1)
       assert.strictEqual(pagedData.pages, 1)
     })
+
+    await it('returns users matching every search term', async () => {
+      const response = await fetch(endpoints.users + '?search=' + encodeURIComponent('tipton mark'))
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data.length, 1)
+      assert.strictEqual(pagedData.data[0].id, 'c7deb881-1939-4208-9a63-61a885f02d8f')
+
+      const noMatchResponse = await fetch(endpoints.users + '?search=' + encodeURIComponent('tipton whitney'))
+      const noMatch = await noMatchResponse.json()
+
+      assert.strictEqual(noMatch.data.length, 0)
+    })
+
+    await it('ignores accents when searching', async () => {
+      const response = await fetch(endpoints.users + '?search=' + encodeURIComponent('Márk'))
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data.length, 1)
+      assert.strictEqual(pagedData.data[0].first, 'Mark')
+    })
+
+    await it('orders search results by relevance', async () => {
+      const response = await fetch(endpoints.users + '?search=an')
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data[0].first, 'Andrew')
+      assert.ok(pagedData.data.length > 1)
+    })
+
+    await it('matches only at the start of words in prefix mode', async () => {
+      const substringResponse = await fetch(endpoints.users + '?search=ton')
+      const substringData = await substringResponse.json()
+
+      assert.strictEqual(substringData.data.length, 3)
+
+      const prefixResponse = await fetch(endpoints.users + '?search=ton&match=prefix')
+      const prefixData = await prefixResponse.json()
+
+      assert.strictEqual(prefixData.data.length, 0)
+    })
+
+    await it('tolerates typos in fuzzy mode', async () => {
+      const substringResponse = await fetch(endpoints.users + '?search=Tiptn')
+      const substringData = await substringResponse.json()
+
+      assert.strictEqual(substringData.data.length, 0)
+
+      const fuzzyResponse = await fetch(endpoints.users + '?search=Tiptn&match=fuzzy')
+      const fuzzyData = await fuzzyResponse.json()
+
+      assert.strictEqual(fuzzyData.data.length, 1)
+      assert.strictEqual(fuzzyData.data[0].last, 'Tipton')
+    })
+
+    await it('returns match ranges when asked to highlight', async () => {
+      const response = await fetch(endpoints.users + '?search=mar&highlight=true')
+      const pagedData = await response.json()
+
+      assert.deepStrictEqual(pagedData.data[0].matches, { first: [[0, 3]] })
+
+      const plainResponse = await fetch(endpoints.users + '?search=mar')
+      const plainData = await plainResponse.json()
+
+      assert.strictEqual(plainData.data[0].matches, undefined)
+    })
+
+    await it('returns a 400 for an invalid match mode', async () => {
+      const response = await fetch(endpoints.users + '?search=mark&match=exact')
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Invalid match mode: exact')
+    })
+
+    await it('returns users filtered by role', async () => {
+      const response = await fetch(endpoints.users + '?roleId=5237711f-7969-4923-aacc-a623a4e9dac1')
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data.length, 2)
+      assert.strictEqual(pagedData.total, 2)
+    })
+
+    await it('returns users filtered by status', async () => {
+      await fetch(endpoints.users + '/c7deb881-1939-4208-9a63-61a885f02d8f/suspend', getFetchOptions('POST'))
+
+      const response = await fetch(endpoints.users + '?status=suspended')
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.total, 1)
+      assert.strictEqual(pagedData.data[0].first, 'Mark')
+
+      const activeResponse = await fetch(endpoints.users + '?status=active,invited')
+      const activeData = await activeResponse.json()
+
+      assert.strictEqual(activeData.total, 15)
+    })
+
+    await it('returns 400 if status is invalid', async () => {
+      const response = await fetch(endpoints.users + '?status=banned')
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Invalid status: banned')
+    })
+
+    await it('returns users filtered by multiple roles', async () => {
+      const response = await fetch(
+        endpoints.users +
+          '?roleId=5237711f-7969-4923-aacc-a623a4e9dac1&roleId=36c8de01-e30a-4682-b8cf-962593a8d3b6'
+      )
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data.length, 4)
+    })
+
+    await it('returns users filtered by role and search', async () => {
+      const response = await fetch(endpoints.users + '?roleId=5237711f-7969-4923-aacc-a623a4e9dac1&search=Whitney')
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data.length, 1)
+      assert.strictEqual(pagedData.data[0].first, 'Whitney')
+    })
+
+    await it('returns users with their role expanded', async () => {
+      const response = await fetch(endpoints.users + '?expand=role')
+      const pagedData = await response.json()
+
+      for (const user of pagedData.data) {
+        assert.strictEqual(user.role.id, user.roleId)
+      }
+      assert.strictEqual(pagedData.pages, 2)
+    })
+
+    await it('returns 400 if expand field is invalid', async () => {
+      const response = await fetch(endpoints.users + '?expand=photo')
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Invalid expand field: photo')
+    })
+
+    await it('returns users sorted by the given field', async () => {
+      const response = await fetch(endpoints.users + '?sort=first')
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data[0].first, 'Aaron')
+      assert.strictEqual(pagedData.data[1].first, 'Andrew')
+    })
+
+    await it('returns users sorted in the given order', async () => {
+      const response = await fetch(endpoints.users + '?sort=last&order=desc')
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data[0].last, 'Todd')
+      assert.strictEqual(pagedData.data[1].last, 'Tipton')
+    })
+
+    await it('returns users sorted by role name', async () => {
+      const response = await fetch(endpoints.users + '?sort=role')
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data[0].roleId, '5237711f-7969-4923-aacc-a623a4e9dac1')
+      assert.strictEqual(pagedData.data[1].roleId, '5237711f-7969-4923-aacc-a623a4e9dac1')
+      assert.strictEqual(pagedData.data[2].roleId, '36c8de01-e30a-4682-b8cf-962593a8d3b6')
+    })
+
+    await it('returns 400 if sort field is not sortable', async () => {
+      const response = await fetch(endpoints.users + '?sort=photo')
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Invalid sort field: photo')
+    })
+
+    await it('returns 400 if sort order is invalid', async () => {
+      const response = await fetch(endpoints.users + '?sort=first&order=sideways')
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Invalid sort order: sideways')
+    })
   })
 
   await test('GET /users/:id', async () => {
@@ -71,6 +398,14 @@ await test('API', async () => {
 
       assert.strictEqual(user.first, 'Mark')
       assert.strictEqual(user.last, 'Tipton')
+      assert.strictEqual(user.role, undefined)
+    })
+
+    await it('returns a user with their role expanded', async () => {
+      const response = await fetch(endpoints.users + '/c7deb881-1939-4208-9a63-61a885f02d8f?expand=role')
+      const user = await response.json()
+
+      assert.strictEqual(user.role.name, 'Design')
     })
 
     await it('returns a 404 if user not found', async () => {
@@ -83,6 +418,36 @@ await test('API', async () => {
     })
   })
 
+  await test('GET /users/:id/permissions', async () => {
+    afterEach(() => server.reset())
+
+    await it("returns the permissions of the user's role", async () => {
+      const response = await fetch(endpoints.users + '/c7deb881-1939-4208-9a63-61a885f02d8f/permissions')
+      const permissions = await response.json()
+
+      assert.deepStrictEqual(permissions, ['users:read', 'roles:read'])
+    })
+
+    await it('includes the permissions implied by the granted ones', async () => {
+      const id = '5237711f-7969-4923-aacc-a623a4e9dac1'
+      await fetch(
+        endpoints.roles + '/' + id,
+        getFetchOptions('PATCH', { permissions: ['roles:write', 'users:delete'] })
+      )
+
+      const response = await fetch(endpoints.users + '/c7deb881-1939-4208-9a63-61a885f02d8f/permissions')
+      const permissions = await response.json()
+
+      assert.deepStrictEqual(permissions, ['users:read', 'users:delete', 'roles:read', 'roles:write'])
+    })
+
+    await it('returns a 404 if user not found', async () => {
+      const response = await fetch(endpoints.users + '/not-a-user/permissions')
+
+      assert.strictEqual(response.status, 404)
+    })
+  })
+
   await test('PATCH /users/:id', async () => {
     afterEach(() => server.reset())
 
@@ -108,6 +473,28 @@ await test('API', async () => {
       assert.strictEqual(user.last, 'Tipton')
     })
 
+    await it('updates the email of the user', async () => {
+      const response = await fetch(
+        endpoints.users + '/c7deb881-1939-4208-9a63-61a885f02d8f',
+        getFetchOptions('PATCH', { email: 'mark@example.com' })
+      )
+      const user = await response.json()
+
+      assert.strictEqual(user.email, 'mark@example.com')
+    })
+
+    await it('returns 400 if email belongs to another user', async () => {
+      const response = await fetch(
+        endpoints.users + '/c7deb881-1939-4208-9a63-61a885f02d8f',
+        getFetchOptions('PATCH', { email: 'Whitney.Morton@example.com' })
+      )
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'User with given email already exists')
+    })
+
     await it('returns 400 if referenced role not found', async () => {
       const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
       const response = await fetch(endpoints.users + '/' + id, getFetchOptions('PATCH', { roleId: 'not-a-role' }))
@@ -118,6 +505,58 @@ await test('API', async () => {
       assert.strictEqual(message.message, 'Referenced role not found')
     })
 
+    await it('updates the user if If-Match matches the current ETag', async () => {
+      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      const userResponse = await fetch(endpoints.users + '/' + id)
+      const etag = userResponse.headers.get('etag') as string
+
+      const response = await fetch(endpoints.users + '/' + id, {
+        method: 'PATCH',
+        headers: { 'content-type': 'application/json', 'if-match': etag },
+        body: JSON.stringify({ first: 'Max' }),
+      })
+      const user = await response.json()
+
+      assert.strictEqual(response.status, 200)
+      assert.strictEqual(user.first, 'Max')
+      assert.notStrictEqual(response.headers.get('etag'), etag)
+    })
+
+    await it('returns 412 with the current user if If-Match is stale', async () => {
+      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      const userResponse = await fetch(endpoints.users + '/' + id)
+      const etag = userResponse.headers.get('etag') as string
+
+      await fetch(endpoints.users + '/' + id, getFetchOptions('PATCH', { first: 'Max' }))
+
+      const response = await fetch(endpoints.users + '/' + id, {
+        method: 'PATCH',
+        headers: { 'content-type': 'application/json', 'if-match': etag },
+        body: JSON.stringify({ first: 'Maxwell' }),
+      })
+
+      assert.strictEqual(response.status, 412)
+
+      const body = await response.json()
+      assert.strictEqual(body.message, 'Precondition failed')
+      assert.strictEqual(body.data.first, 'Max')
+    })
+
+    await it('returns 400 if the body is not a JSON object', async () => {
+      for (const body of ['{', 'null']) {
+        const response = await fetch(endpoints.users + '/c7deb881-1939-4208-9a63-61a885f02d8f', {
+          method: 'PATCH',
+          headers: { 'content-type': 'application/json' },
+          body,
+        })
+
+        assert.strictEqual(response.status, 400)
+
+        const message = await response.json()
+        assert.strictEqual(message.message, 'Invalid JSON body')
+      }
+    })
+
     await it('returns 404 if user not found', async () => {
       const response = await fetch(endpoints.users + '/not-a-user', getFetchOptions('PATCH', { first: 'Bob' }))
 
@@ -137,6 +576,7 @@ await test('API', async () => {
         getFetchOptions('POST', {
           first: 'Sue',
           last: 'Tran',
+          email: 'sue.tran@example.com',
           roleId: '1a235261-fa93-4845-ab48-ee23895998e6',
         })
       )
@@ -152,6 +592,7 @@ await test('API', async () => {
         getFetchOptions('POST', {
           first: 'Kelly',
           last: 'McDonald',
+          email: 'kelly.mcdonald@example.com',
           roleId: '1a235261-fa93-4845-ab48-ee23895998e6',
         })
       )
@@ -164,12 +605,32 @@ await test('API', async () => {
       assert.strictEqual(user2.last, 'McDonald')
     })
 
+    await it('generates the same user for the same seed', async () => {
+      const body = {
+        first: 'Sue',
+        last: 'Tran',
+        email: 'sue.tran@example.com',
+        roleId: '1a235261-fa93-4845-ab48-ee23895998e6',
+      }
+      const response = await fetch(endpoints.users, getFetchOptions('POST', body))
+      const user = await response.json()
+
+      server.reset()
+
+      const response2 = await fetch(endpoints.users, getFetchOptions('POST', body))
+      const user2 = await response2.json()
+
+      assert.strictEqual(user2.id, user.id)
+      assert.strictEqual(user2.photo, user.photo)
+    })
+
     await it('returns 400 if referenced role not found', async () => {
       const response = await fetch(
         endpoints.users,
         getFetchOptions('POST', {
           first: 'Kelly',
           last: 'McDonald',
+          email: 'kelly.mcdonald@example.com',
           roleId: 'not-a-role',
         })
       )
@@ -185,6 +646,7 @@ await test('API', async () => {
         endpoints.users,
         getFetchOptions('POST', {
           last: 'McDonald',
+          email: 'kelly.mcdonald@example.com',
           roleId: '1a235261-fa93-4845-ab48-ee23895998e6',
         })
       )
@@ -200,6 +662,7 @@ await test('API', async () => {
         endpoints.users,
         getFetchOptions('POST', {
           first: 'Kelly',
+          email: 'kelly.mcdonald@example.com',
           roleId: '1a235261-fa93-4845-ab48-ee23895998e6',
         })
       )
@@ -210,280 +673,1719 @@ await test('API', async () => {
       assert.strictEqual(message.message, 'Missing required field: last')
     })
 
-    await it('returns 400 if user.roleId missing', async () => {
+    await it('trims whitespace from names', async () => {
       const response = await fetch(
         endpoints.users,
         getFetchOptions('POST', {
-          first: 'Kelly',
-          last: 'McDonald',
+          first: '  Sue ',
+          last: 'Tran  ',
+          email: 'sue.tran@example.com',
+          roleId: '1a235261-fa93-4845-ab48-ee23895998e6',
         })
       )
+      const user = await response.json()
 
-      assert.strictEqual(response.status, 400)
-
-      const message = await response.json()
-      assert.strictEqual(message.message, 'Missing required field: roleId')
+      assert.strictEqual(user.first, 'Sue')
+      assert.strictEqual(user.last, 'Tran')
     })
-  })
-
-  await test('DELETE /users/:id', async () => {
-    afterEach(() => server.reset())
 
-    await it("returns a 'deleted' message", async () => {
+    await it('returns 422 with field errors if fields are invalid', async () => {
       const response = await fetch(
-        endpoints.users + '/c7deb881-1939-4208-9a63-61a885f02d8f',
-        getFetchOptions('DELETE')
+        endpoints.users,
+        getFetchOptions('POST', {
+          first: 42,
+          last: 'x'.repeat(101),
+          roleId: '1a235261-fa93-4845-ab48-ee23895998e6',
+          isAdmin: true,
+        })
       )
 
-      const user = await response.json()
+      assert.strictEqual(response.status, 422)
 
-      assert.strictEqual(user.id, 'c7deb881-1939-4208-9a63-61a885f02d8f')
+      const body = await response.json()
+      assert.strictEqual(body.message, 'Validation failed')
+      assert.deepStrictEqual(body.errors, [
+        { field: 'first', message: 'must be a string' },
+        { field: 'last', message: 'must be at most 100 characters' },
+        { field: 'isAdmin', message: 'is not allowed' },
+      ])
     })
 
-    await it('deletes the user', async () => {
-      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
-      await fetch(endpoints.users + '/' + id, getFetchOptions('DELETE'))
-
-      const response = await fetch(endpoints.users + '/' + id)
-
-      assert.strictEqual(response.status, 404)
+    await it('returns a new user as active', async () => {
+      const response = await fetch(
+        endpoints.users,
+        getFetchOptions('POST', {
+          first: 'Sue',
+          last: 'Tran',
+          email: 'sue.tran@example.com',
+          roleId: '1a235261-fa93-4845-ab48-ee23895998e6',
+        })
+      )
+      const user = await response.json()
+
+      assert.strictEqual(user.email, 'sue.tran@example.com')
+      assert.strictEqual(user.status, 'active')
+    })
+
+    await it('returns 422 if email is invalid', async () => {
+      const response = await fetch(
+        endpoints.users,
+        getFetchOptions('POST', {
+          first: 'Sue',
+          last: 'Tran',
+          email: 'sue.tran',
+          roleId: '1a235261-fa93-4845-ab48-ee23895998e6',
+        })
+      )
+
+      assert.strictEqual(response.status, 422)
+
+      const body = await response.json()
+      assert.deepStrictEqual(body.errors, [{ field: 'email', message: 'must be a valid email address' }])
+    })
+
+    await it('returns 400 if email already exists', async () => {
+      const response = await fetch(
+        endpoints.users,
+        getFetchOptions('POST', {
+          first: 'Mark',
+          last: 'Tipton',
+          email: 'MARK.TIPTON@example.com',
+          roleId: '1a235261-fa93-4845-ab48-ee23895998e6',
+        })
+      )
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'User with given email already exists')
+    })
+
+    await it('returns 400 if user.roleId missing', async () => {
+      const response = await fetch(
+        endpoints.users,
+        getFetchOptions('POST', {
+          first: 'Kelly',
+          last: 'McDonald',
+          email: 'kelly.mcdonald@example.com',
+        })
+      )
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Missing required field: roleId')
+    })
+  })
+
+  await test('DELETE /users/:id', async () => {
+    afterEach(() => server.reset())
+
+    await it("returns a 'deleted' message", async () => {
+      const response = await fetch(
+        endpoints.users + '/c7deb881-1939-4208-9a63-61a885f02d8f',
+        getFetchOptions('DELETE')
+      )
+
+      const user = await response.json()
+
+      assert.strictEqual(user.id, 'c7deb881-1939-4208-9a63-61a885f02d8f')
+    })
+
+    await it('deletes the user', async () => {
+      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      await fetch(endpoints.users + '/' + id, getFetchOptions('DELETE'))
+
+      const response = await fetch(endpoints.users + '/' + id)
+
+      assert.strictEqual(response.status, 404)
+    })
+
+    await it('keeps the deleted user for when deleted users are asked for', async () => {
+      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      await fetch(endpoints.users + '/' + id, getFetchOptions('DELETE'))
+
+      const listResponse = await fetch(endpoints.users)
+      const list = await listResponse.json()
+
+      assert.strictEqual(list.total, 15)
+
+      const deletedListResponse = await fetch(endpoints.users + '?includeDeleted=true')
+      const deletedList = await deletedListResponse.json()
+
+      assert.strictEqual(deletedList.total, 16)
+
+      const response = await fetch(endpoints.users + '/' + id + '?includeDeleted=true')
+      const user = await response.json()
+
+      assert.strictEqual(response.status, 200)
+      assert.ok(user.deletedAt)
+    })
+
+    await it('returns 404 if user not found', async () => {
+      const response = await fetch(endpoints.users + '/not-a-user', getFetchOptions('DELETE'))
+
+      assert.strictEqual(response.status, 404)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'User not found')
+    })
+  })
+
+  await test('POST /users/:id/restore', async () => {
+    afterEach(() => server.reset())
+
+    await it('restores a deleted user', async () => {
+      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      await fetch(endpoints.users + '/' + id, getFetchOptions('DELETE'))
+
+      const response = await fetch(endpoints.users + '/' + id + '/restore', getFetchOptions('POST'))
+      const user = await response.json()
+
+      assert.strictEqual(response.status, 200)
+      assert.strictEqual(user.deletedAt, undefined)
+
+      const userResponse = await fetch(endpoints.users + '/' + id)
+      assert.strictEqual(userResponse.status, 200)
+
+      const eventsResponse = await fetch(endpoints.auditEvents + `?entityId=${id}&action=restored`)
+      const events = await eventsResponse.json()
+      assert.strictEqual(events.data.length, 1)
+    })
+
+    await it('returns 400 if user is not deleted', async () => {
+      const response = await fetch(
+        endpoints.users + '/c7deb881-1939-4208-9a63-61a885f02d8f/restore',
+        getFetchOptions('POST')
+      )
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'User is not deleted')
+    })
+
+    await it('returns 404 if user not found', async () => {
+      const response = await fetch(endpoints.users + '/not-a-user/restore', getFetchOptions('POST'))
+
+      assert.strictEqual(response.status, 404)
+    })
+  })
+
+  await test('POST /users/invite', async () => {
+    afterEach(() => server.reset())
+
+    await it('creates an invited user with a token', async () => {
+      const response = await fetch(
+        endpoints.users + '/invite',
+        getFetchOptions('POST', { first: 'Sue', last: 'Tran', email: 'sue.tran@example.com' })
+      )
+      const { token, user } = await response.json()
+
+      assert.strictEqual(response.status, 200)
+      assert.ok(token)
+      assert.strictEqual(user.status, 'invited')
+      assert.strictEqual(user.roleId, '6c0a71c0-a5bc-44f8-8634-60f44840d92a')
+
+      const permissionsResponse = await fetch(endpoints.users + '/' + user.id + '/permissions')
+      const permissions = await permissionsResponse.json()
+
+      assert.deepStrictEqual(permissions, [])
+    })
+
+    await it('activates the user when the invitation is accepted', async () => {
+      const inviteResponse = await fetch(
+        endpoints.users + '/invite',
+        getFetchOptions('POST', { first: 'Sue', last: 'Tran', email: 'sue.tran@example.com' })
+      )
+      const { token, user } = await inviteResponse.json()
+
+      const response = await fetch(endpoints.users + '/accept-invite', getFetchOptions('POST', { token }))
+      const accepted = await response.json()
+
+      assert.strictEqual(response.status, 200)
+      assert.strictEqual(accepted.id, user.id)
+      assert.strictEqual(accepted.status, 'active')
+
+      const againResponse = await fetch(endpoints.users + '/accept-invite', getFetchOptions('POST', { token }))
+
+      assert.strictEqual(againResponse.status, 404)
+    })
+
+    await it('gives tokens that the seed does not decide', async () => {
+      const user = { first: 'Sue', last: 'Tran', email: 'sue.tran@example.com' }
+      const first = await (await fetch(endpoints.users + '/invite', getFetchOptions('POST', user))).json()
+      server.reset()
+      const second = await (await fetch(endpoints.users + '/invite', getFetchOptions('POST', user))).json()
+
+      assert.strictEqual(second.user.id, first.user.id)
+      assert.notStrictEqual(second.token, first.token)
+    })
+
+    await it('returns 404 if the token is unknown', async () => {
+      const response = await fetch(
+        endpoints.users + '/accept-invite',
+        getFetchOptions('POST', { token: 'not-a-token' })
+      )
+
+      assert.strictEqual(response.status, 404)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Invitation not found')
+    })
+
+    await it('returns 400 if email already exists', async () => {
+      const response = await fetch(
+        endpoints.users + '/invite',
+        getFetchOptions('POST', { first: 'Mark', last: 'Tipton', email: 'mark.tipton@example.com' })
+      )
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'User with given email already exists')
+    })
+
+    await it('returns 400 if email missing', async () => {
+      const response = await fetch(endpoints.users + '/invite', getFetchOptions('POST', { first: 'Sue', last: 'Tran' }))
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Missing required field: email')
+    })
+  })
+
+  await test('POST /users/:id/suspend', async () => {
+    afterEach(() => server.reset())
+
+    await it('suspends and reactivates the user', async () => {
+      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      const response = await fetch(endpoints.users + '/' + id + '/suspend', getFetchOptions('POST'))
+      const user = await response.json()
+
+      assert.strictEqual(user.status, 'suspended')
+
+      const permissionsResponse = await fetch(endpoints.users + '/' + id + '/permissions')
+      const permissions = await permissionsResponse.json()
+
+      assert.deepStrictEqual(permissions, [])
+
+      const reactivateResponse = await fetch(endpoints.users + '/' + id + '/reactivate', getFetchOptions('POST'))
+      const reactivated = await reactivateResponse.json()
+
+      assert.strictEqual(reactivated.status, 'active')
+    })
+
+    await it('returns 400 if user is not active', async () => {
+      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      await fetch(endpoints.users + '/' + id + '/suspend', getFetchOptions('POST'))
+
+      const response = await fetch(endpoints.users + '/' + id + '/suspend', getFetchOptions('POST'))
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'User is not active')
+    })
+
+    await it('returns 400 if user is not suspended', async () => {
+      const response = await fetch(
+        endpoints.users + '/c7deb881-1939-4208-9a63-61a885f02d8f/reactivate',
+        getFetchOptions('POST')
+      )
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'User is not suspended')
+    })
+  })
+
+  await test('POST /users/bulk-delete', async () => {
+    afterEach(() => server.reset())
+
+    await it('deletes all of the given users', async () => {
+      const ids = ['c7deb881-1939-4208-9a63-61a885f02d8f', '0d27a858-4136-4391-b29c-2342dec39fff']
+      const response = await fetch(endpoints.users + '/bulk-delete', getFetchOptions('POST', { ids }))
+      const result = await response.json()
+
+      assert.strictEqual(response.status, 200)
+      assert.deepStrictEqual(
+        result.results.map((item: { id: string; status: number }) => [item.id, item.status]),
+        ids.map((id) => [id, 200])
+      )
+
+      for (const id of ids) {
+        const userResponse = await fetch(endpoints.users + '/' + id)
+        assert.strictEqual(userResponse.status, 404)
+      }
+    })
+
+    await it('returns 400 and deletes nothing if any user is not found', async () => {
+      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      const response = await fetch(
+        endpoints.users + '/bulk-delete',
+        getFetchOptions('POST', { ids: [id, 'not-a-user'] })
+      )
+      const result = await response.json()
+
+      assert.strictEqual(response.status, 400)
+      assert.strictEqual(result.message, 'No changes were applied')
+      assert.strictEqual(result.results[0].status, 424)
+      assert.strictEqual(result.results[1].status, 404)
+      assert.strictEqual(result.results[1].message, 'User not found')
+
+      const userResponse = await fetch(endpoints.users + '/' + id)
+      assert.strictEqual(userResponse.status, 200)
+    })
+
+    await it('deletes the users that exist in partial mode', async () => {
+      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      const response = await fetch(
+        endpoints.users + '/bulk-delete',
+        getFetchOptions('POST', { ids: [id, 'not-a-user'], atomic: false })
+      )
+      const result = await response.json()
+
+      assert.strictEqual(response.status, 200)
+      assert.strictEqual(result.results[0].status, 200)
+      assert.strictEqual(result.results[0].data.id, id)
+      assert.strictEqual(result.results[1].status, 404)
+      assert.strictEqual(result.results[1].message, 'User not found')
+
+      const userResponse = await fetch(endpoints.users + '/' + id)
+      assert.strictEqual(userResponse.status, 404)
+    })
+
+    await it('returns 400 if ids missing', async () => {
+      const response = await fetch(endpoints.users + '/bulk-delete', getFetchOptions('POST', {}))
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Missing required field: ids')
+    })
+  })
+
+  await test('POST /users/bulk-assign-role', async () => {
+    afterEach(() => server.reset())
+
+    await it('assigns the role to all of the given users', async () => {
+      const ids = ['c7deb881-1939-4208-9a63-61a885f02d8f', '0d27a858-4136-4391-b29c-2342dec39fff']
+      const roleId = '36c8de01-e30a-4682-b8cf-962593a8d3b6'
+      const response = await fetch(endpoints.users + '/bulk-assign-role', getFetchOptions('POST', { ids, roleId }))
+      const result = await response.json()
+
+      assert.strictEqual(response.status, 200)
+      for (const item of result.results) {
+        assert.strictEqual(item.status, 200)
+        assert.strictEqual(item.data.roleId, roleId)
+      }
+
+      for (const id of ids) {
+        const userResponse = await fetch(endpoints.users + '/' + id)
+        const user = await userResponse.json()
+        assert.strictEqual(user.roleId, roleId)
+      }
+    })
+
+    await it('returns 400 and updates nothing if any user is not found', async () => {
+      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      const response = await fetch(
+        endpoints.users + '/bulk-assign-role',
+        getFetchOptions('POST', { ids: [id, 'not-a-user'], roleId: '36c8de01-e30a-4682-b8cf-962593a8d3b6' })
+      )
+
+      assert.strictEqual(response.status, 400)
+
+      const userResponse = await fetch(endpoints.users + '/' + id)
+      const user = await userResponse.json()
+      assert.strictEqual(user.roleId, '5237711f-7969-4923-aacc-a623a4e9dac1')
+    })
+
+    await it('returns 400 if referenced role not found', async () => {
+      const response = await fetch(
+        endpoints.users + '/bulk-assign-role',
+        getFetchOptions('POST', { ids: ['c7deb881-1939-4208-9a63-61a885f02d8f'], roleId: 'not-a-role' })
+      )
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Referenced role not found')
+    })
+
+    await it('returns 400 if roleId missing', async () => {
+      const response = await fetch(
+        endpoints.users + '/bulk-assign-role',
+        getFetchOptions('POST', { ids: ['c7deb881-1939-4208-9a63-61a885f02d8f'] })
+      )
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Missing required field: roleId')
+    })
+  })
+
+  await test('GET /users/export', async () => {
+    await it('returns every user as CSV', async () => {
+      const response = await fetch(endpoints.users + '/export')
+      const rows = (await response.text()).trim().split('\r\n')
+
+      assert.match(response.headers.get('content-type') as string, /^text\/csv/)
+      assert.match(response.headers.get('content-disposition') as string, /users\.csv/)
+      assert.strictEqual(rows[0], 'id,first,last,email,status,role,createdAt,updatedAt,deletedAt')
+      assert.strictEqual(rows.length, 17)
+    })
+
+    await it('applies the same search and filters as the list', async () => {
+      const response = await fetch(endpoints.users + '/export?search=Mark&roleId=5237711f-7969-4923-aacc-a623a4e9dac1')
+      const rows = (await response.text()).trim().split('\r\n')
+
+      assert.strictEqual(rows.length, 2)
+      assert.match(rows[1], /^c7deb881-[\w-]+,Mark,Tipton,mark\.tipton@example\.com,active,Design,/)
+    })
+  })
+
+  await test('POST /users/import', async () => {
+    afterEach(() => server.reset())
+
+    function getCsvOptions(csv: string) {
+      return { method: 'POST', headers: { 'content-type': 'text/csv' }, body: csv }
+    }
+
+    const csv = [
+      'first,last,email,role',
+      'Sue,Tran,sue.tran@example.com,Engineering',
+      'Mark,Tipton-Smith,Mark.Tipton@example.com,Design',
+      'Whitney,Morton,whitney.morton@example.com,Design',
+    ].join('\n')
+
+    await it('reports the planned changes without applying them in a dry run', async () => {
+      const response = await fetch(endpoints.users + '/import?dryRun=true', getCsvOptions(csv))
+      const result = await response.json()
+
+      assert.strictEqual(response.status, 200)
+      assert.strictEqual(result.dryRun, true)
+      assert.deepStrictEqual([result.created, result.updated, result.unchanged, result.failed], [1, 1, 1, 0])
+      assert.strictEqual(result.rows[0].action, 'create')
+      assert.strictEqual(result.rows[0].changes.roleId.after, '1a235261-fa93-4845-ab48-ee23895998e6')
+      assert.deepStrictEqual(result.rows[1].changes, { last: { before: 'Tipton', after: 'Tipton-Smith' } })
+      assert.strictEqual(result.rows[2].action, 'unchanged')
+
+      const usersResponse = await fetch(endpoints.users)
+      const users = await usersResponse.json()
+      assert.strictEqual(users.total, 16)
+    })
+
+    await it('creates and updates users', async () => {
+      const response = await fetch(endpoints.users + '/import', getCsvOptions(csv))
+      const result = await response.json()
+
+      assert.strictEqual(response.status, 200)
+      assert.strictEqual(result.dryRun, false)
+      assert.ok(result.rows[0].id)
+
+      const createdResponse = await fetch(endpoints.users + '/' + result.rows[0].id)
+      const created = await createdResponse.json()
+      assert.strictEqual(created.email, 'sue.tran@example.com')
+      assert.strictEqual(created.status, 'active')
+
+      const updatedResponse = await fetch(endpoints.users + '/c7deb881-1939-4208-9a63-61a885f02d8f')
+      const updated = await updatedResponse.json()
+      assert.strictEqual(updated.last, 'Tipton-Smith')
+      assert.strictEqual(updated.email, 'mark.tipton@example.com')
+    })
+
+    await it('returns 400 with the errors of every row and imports nothing if any row is invalid', async () => {
+      const invalidCsv = [
+        'first,last,email,role',
+        'Sue,Tran,sue.tran@example.com,Engineering',
+        ',Nguyen,not-an-email,Sales',
+        'Susan,Tran,SUE.TRAN@example.com,Design',
+      ].join('\n')
+      const response = await fetch(endpoints.users + '/import', getCsvOptions(invalidCsv))
+      const result = await response.json()
+
+      assert.strictEqual(response.status, 400)
+      assert.strictEqual(result.message, 'No changes were applied')
+      assert.strictEqual(result.failed, 2)
+      assert.deepStrictEqual(result.rows[1], {
+        row: 3,
+        errors: [
+          { field: 'first', message: 'must not be empty' },
+          { field: 'email', message: 'must be a valid email address' },
+          { field: 'role', message: 'must be the name of an existing role' },
+        ],
+      })
+      assert.deepStrictEqual(result.rows[2].errors, [{ field: 'email', message: 'is repeated from an earlier row' }])
+
+      const usersResponse = await fetch(endpoints.users)
+      const users = await usersResponse.json()
+      assert.strictEqual(users.total, 16)
+    })
+
+    await it('returns 400 if a required column is missing', async () => {
+      const response = await fetch(endpoints.users + '/import', getCsvOptions('first,last\nSue,Tran'))
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Missing required columns: email, role')
+    })
+
+    await it('returns 415 if the body is not CSV', async () => {
+      const response = await fetch(endpoints.users + '/import', getFetchOptions('POST', { first: 'Sue' }))
+
+      assert.strictEqual(response.status, 415)
+    })
+  })
+
+  // ----------
+  // Role tests
+  // ----------
+
+  await test('GET /roles', async () => {
+    await it('returns the 1st page of roles by default', async () => {
+      const response = await fetch(endpoints.roles)
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data.length, 6)
+      assert.strictEqual(pagedData.next, null)
+      assert.strictEqual(pagedData.prev, null)
+      assert.strictEqual(pagedData.pages, 1)
+    })
+
+    await it('returns the number of users holding each role', async () => {
+      const response = await fetch(endpoints.roles + '?sort=name')
+      const pagedData = await response.json()
+
+      assert.deepStrictEqual(
+        pagedData.data.map((role: { userCount: number }) => role.userCount),
+        [0, 2, 2, 10, 2, 0]
+      )
+    })
+
+    await it('returns the 2nd page of roles', async () => {
+      const response = await fetch(endpoints.roles + '?page=2')
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data.length, 0)
+      assert.strictEqual(pagedData.next, null)
+      assert.strictEqual(pagedData.prev, 1)
+      assert.strictEqual(pagedData.pages, 1)
+    })
+
+    await it('returns a filtered page of roles', async () => {
+      const response = await fetch(endpoints.roles + '?search=visual')
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data.length, 1)
+      assert.strictEqual(pagedData.pages, 1)
+    })
+
+    await it('returns roles sorted by the given field', async () => {
+      const response = await fetch(endpoints.roles + '?sort=name')
+      const pagedData = await response.json()
+
+      assert.deepStrictEqual(
+        pagedData.data.map((role: { name: string }) => role.name),
+        ['Admin', 'Design', 'Developer Experience', 'Engineering', 'Support', 'Viewer']
+      )
+    })
+
+    await it('returns 400 if sort field is not sortable', async () => {
+      const response = await fetch(endpoints.roles + '?sort=id')
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Invalid sort field: id')
+    })
+  })
+
+  await test('GET /roles/:id', async () => {
+    await it('returns a role', async () => {
+      const response = await fetch(endpoints.roles + '/1a235261-fa93-4845-ab48-ee23895998e6')
+      const role = await response.json()
+
+      assert.strictEqual(role.name, 'Engineering')
+      assert.strictEqual(
+        role.description,
+        'Engineers build and maintain the software that powers our products and services.'
+      )
+      assert.strictEqual(role.userCount, 10)
+    })
+
+    await it('returns a 404 if role not found', async () => {
+      const response = await fetch(endpoints.roles + '/not-a-role')
+
+      assert.strictEqual(response.status, 404)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Role not found')
+    })
+  })
+
+  await test('GET /roles/:id/users', async () => {
+    afterEach(() => server.reset())
+
+    await it('returns the 1st page of users holding the role', async () => {
+      const response = await fetch(endpoints.roles + '/1a235261-fa93-4845-ab48-ee23895998e6/users')
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data.length, pageSize)
+      assert.strictEqual(pagedData.next, null)
+      assert.strictEqual(pagedData.prev, null)
+      assert.strictEqual(pagedData.pages, 1)
+      assert.strictEqual(pagedData.total, 10)
+      for (const user of pagedData.data) {
+        assert.strictEqual(user.roleId, '1a235261-fa93-4845-ab48-ee23895998e6')
+      }
+    })
+
+    await it('returns a filtered page of users holding the role', async () => {
+      const response = await fetch(endpoints.roles + '/5237711f-7969-4923-aacc-a623a4e9dac1/users?search=Mark')
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data.length, 1)
+      assert.strictEqual(pagedData.data[0].first, 'Mark')
+    })
+
+    await it('returns no users after the role is deleted', async () => {
+      const id = '5237711f-7969-4923-aacc-a623a4e9dac1'
+      await fetch(endpoints.roles + '/' + id, getFetchOptions('DELETE'))
+
+      const response = await fetch(endpoints.roles + '/' + id + '/users')
+
+      assert.strictEqual(response.status, 404)
+    })
+
+    await it('returns 404 if role not found', async () => {
+      const response = await fetch(endpoints.roles + '/not-a-role/users')
+
+      assert.strictEqual(response.status, 404)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Role not found')
+    })
+  })
+
+  await test('PATCH /roles/:id', async () => {
+    afterEach(() => server.reset())
+
+    await it('returns the updated role', async () => {
+      const response = await fetch(
+        endpoints.roles + '/1a235261-fa93-4845-ab48-ee23895998e6',
+        getFetchOptions('PATCH', { name: 'Frontend Engineering' })
+      )
+      const user = await response.json()
+
+      assert.strictEqual(user.name, 'Frontend Engineering')
+    })
+
+    await it('updates the role', async () => {
+      const id = '1a235261-fa93-4845-ab48-ee23895998e6'
+      await fetch(endpoints.roles + '/' + id, getFetchOptions('PATCH', { name: 'Security' }))
+
+      const response = await fetch(endpoints.roles + '/' + id)
+      const user = await response.json()
+
+      assert.strictEqual(user.name, 'Security')
+    })
+
+    await it('returns 400 if role name already exists', async () => {
+      const response = await fetch(
+        endpoints.roles + '/1a235261-fa93-4845-ab48-ee23895998e6',
+        getFetchOptions('PATCH', { name: 'Support' })
+      )
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Role with given name already exists')
+    })
+
+    await it('returns 422 with field errors if fields are invalid', async () => {
+      const response = await fetch(
+        endpoints.roles + '/1a235261-fa93-4845-ab48-ee23895998e6',
+        getFetchOptions('PATCH', { name: '   ', isDefault: 'yes' })
+      )
+
+      assert.strictEqual(response.status, 422)
+
+      const body = await response.json()
+      assert.deepStrictEqual(body.errors, [
+        { field: 'name', message: 'must not be empty' },
+        { field: 'isDefault', message: 'must be a boolean' },
+      ])
+    })
+
+    await it('returns 400 if default role is unset', async () => {
+      const response = await fetch(
+        endpoints.roles + '/6c0a71c0-a5bc-44f8-8634-60f44840d92a',
+        getFetchOptions('PATCH', { isDefault: false })
+      )
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Cannot unset default role')
+    })
+
+    await it('returns 412 with the current role if If-Match is stale', async () => {
+      const id = '1a235261-fa93-4845-ab48-ee23895998e6'
+      const roleResponse = await fetch(endpoints.roles + '/' + id)
+      const etag = roleResponse.headers.get('etag') as string
+
+      await fetch(endpoints.roles + '/' + id, getFetchOptions('PATCH', { name: 'Platform' }))
+
+      const response = await fetch(endpoints.roles + '/' + id, {
+        method: 'PATCH',
+        headers: { 'content-type': 'application/json', 'if-match': etag },
+        body: JSON.stringify({ name: 'Security' }),
+      })
+
+      assert.strictEqual(response.status, 412)
+
+      const body = await response.json()
+      assert.strictEqual(body.data.name, 'Platform')
+      assert.ok(response.headers.get('etag'))
+    })
+
+    await it('updates the permissions of a role', async () => {
+      const response = await fetch(
+        endpoints.roles + '/5237711f-7969-4923-aacc-a623a4e9dac1',
+        getFetchOptions('PATCH', { permissions: ['audit:read', 'users:read'] })
+      )
+      const role = await response.json()
+
+      assert.deepStrictEqual(role.permissions, ['users:read', 'audit:read'])
+    })
+
+    await it('returns 422 if a permission is not in the catalog', async () => {
+      const response = await fetch(
+        endpoints.roles + '/5237711f-7969-4923-aacc-a623a4e9dac1',
+        getFetchOptions('PATCH', { permissions: ['users:read', 'everything'] })
+      )
+
+      assert.strictEqual(response.status, 422)
+
+      const body = await response.json()
+      assert.strictEqual(body.errors[0].field, 'permissions')
+      assert.match(body.errors[0].message, /^items must be one of: /)
+    })
+
+    await it('returns 404 if role not found', async () => {
+      const response = await fetch(endpoints.roles + '/not-a-role', getFetchOptions('PATCH', { name: 'Admin' }))
+
+      assert.strictEqual(response.status, 404)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Role not found')
+    })
+  })
+
+  await test('POST /roles', async () => {
+    afterEach(() => server.reset())
+
+    await it('returns a new role', async () => {
+      const response = await fetch(
+        endpoints.roles,
+        getFetchOptions('POST', {
+          name: 'Security',
+          description: 'Security engineers protect our products and services.',
+        })
+      )
+      const role = await response.json()
+
+      assert.strictEqual(role.name, 'Security')
+      assert.strictEqual(role.description, 'Security engineers protect our products and services.')
+    })
+
+    await it('adds a new role', async () => {
+      const response = await fetch(
+        endpoints.roles,
+        getFetchOptions('POST', {
+          name: 'Sales',
+          description: 'Sales team members sell our products and services.',
+        })
+      )
+      const role = await response.json()
+
+      const response2 = await fetch(endpoints.roles + '/' + role.id)
+      const role2 = await response2.json()
+
+      assert.strictEqual(role2.name, 'Sales')
+      assert.strictEqual(role2.description, 'Sales team members sell our products and services.')
+    })
+
+    await it('returns a new role with the given permissions', async () => {
+      const response = await fetch(
+        endpoints.roles,
+        getFetchOptions('POST', { name: 'Auditors', permissions: ['audit:read'] })
+      )
+      const role = await response.json()
+
+      assert.deepStrictEqual(role.permissions, ['audit:read'])
+
+      const emptyResponse = await fetch(endpoints.roles, getFetchOptions('POST', { name: 'Guests' }))
+      const emptyRole = await emptyResponse.json()
+
+      assert.deepStrictEqual(emptyRole.permissions, [])
+    })
+
+    await it('returns 422 if permissions are repeated', async () => {
+      const response = await fetch(
+        endpoints.roles,
+        getFetchOptions('POST', { name: 'Auditors', permissions: ['audit:read', 'audit:read'] })
+      )
+
+      assert.strictEqual(response.status, 422)
+
+      const body = await response.json()
+      assert.deepStrictEqual(body.errors, [{ field: 'permissions', message: 'must not contain duplicates' }])
+    })
+
+    await it('returns 400 if role.name missing', async () => {
+      const response = await fetch(endpoints.roles, getFetchOptions('POST', {}))
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Missing required field: name')
+    })
+
+    await it('returns 400 if role name already exists', async () => {
+      const response = await fetch(endpoints.roles, getFetchOptions('POST', { name: 'Engineering' }))
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Role with given name already exists')
+    })
+  })
+
+  await test('DELETE /roles/:id', async () => {
+    afterEach(() => server.reset())
+
+    await it("returns a 'deleted' message", async () => {
+      const response = await fetch(
+        endpoints.roles + '/1a235261-fa93-4845-ab48-ee23895998e6',
+        getFetchOptions('DELETE')
+      )
+
+      const role = await response.json()
+
+      assert.strictEqual(role.id, '1a235261-fa93-4845-ab48-ee23895998e6')
+    })
+
+    await it('deletes the role', async () => {
+      const id = '1a235261-fa93-4845-ab48-ee23895998e6'
+      await fetch(endpoints.roles + '/' + id, getFetchOptions('DELETE'))
+
+      const response = await fetch(endpoints.roles + '/' + id)
+
+      assert.strictEqual(response.status, 404)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Role not found')
+    })
+
+    await it('updates all users with the role to the default role', async () => {
+      const rolesResponse = await fetch(endpoints.roles)
+      const roles = await rolesResponse.json()
+      const defaultRole = roles.data.find((role: { isDefault: boolean }) => role.isDefault)
+
+      const usersBeforeResponse = await fetch(endpoints.users)
+      const usersBefore = await usersBeforeResponse.json()
+
+      const id = '1a235261-fa93-4845-ab48-ee23895998e6'
+      await fetch(endpoints.roles + '/' + id, getFetchOptions('DELETE'))
+
+      const usersAfterResponse = await fetch(endpoints.users)
+      const usersAfter = await usersAfterResponse.json()
+
+      const usersWithRole = usersBefore.data.filter((user: { roleId: string }) => user.roleId === id)
+
+      assert.strictEqual(usersWithRole.length, 7)
+
+      for (const userWithRole of usersWithRole) {
+        const userAfter = usersAfter.data.find(
+          (user: { id: string; roleId: string }) => userWithRole.id === user.id
+        )
+        assert.strictEqual(userAfter.roleId, defaultRole.id)
+        assert.notStrictEqual(userAfter.updatedAt, userWithRole.updatedAt)
+      }
+    })
+
+    await it('returns 412 and keeps the role if If-Match is stale', async () => {
+      const id = '1a235261-fa93-4845-ab48-ee23895998e6'
+      const response = await fetch(endpoints.roles + '/' + id, {
+        method: 'DELETE',
+        headers: { 'if-match': '"stale"' },
+      })
+
+      assert.strictEqual(response.status, 412)
+
+      const roleResponse = await fetch(endpoints.roles + '/' + id)
+      assert.strictEqual(roleResponse.status, 200)
+    })
+
+    await it('returns 404 if role not found', async () => {
+      const response = await fetch(endpoints.roles + '/not-a-role', getFetchOptions('DELETE'))
+
+      assert.strictEqual(response.status, 404)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Role not found')
+    })
+  })
+
+  await test('POST /roles/:id/restore', async () => {
+    afterEach(() => server.reset())
+
+    await it('restores the role and moves its users back', async () => {
+      const id = '5237711f-7969-4923-aacc-a623a4e9dac1'
+      const movedId = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      await fetch(endpoints.roles + '/' + id, getFetchOptions('DELETE'))
+
+      // Users given another role after the delete keep it
+      const usersResponse = await fetch(endpoints.roles + '/6c0a71c0-a5bc-44f8-8634-60f44840d92a/users')
+      const users = await usersResponse.json()
+      const kept = users.data.find((user: { first: string }) => user.first === 'Whitney')
+      await fetch(
+        endpoints.users + '/' + kept.id,
+        getFetchOptions('PATCH', { roleId: '36c8de01-e30a-4682-b8cf-962593a8d3b6' })
+      )
+
+      const response = await fetch(endpoints.roles + '/' + id + '/restore', getFetchOptions('POST'))
+      const role = await response.json()
+
+      assert.strictEqual(response.status, 200)
+      assert.strictEqual(role.deletedAt, undefined)
+
+      const membersResponse = await fetch(endpoints.roles + '/' + id + '/users')
+      const members = await membersResponse.json()
+
+      assert.deepStrictEqual(
+        members.data.map((user: { id: string }) => user.id),
+        [movedId]
+      )
+    })
+
+    await it('returns 400 if the name has been taken since', async () => {
+      const id = '5237711f-7969-4923-aacc-a623a4e9dac1'
+      await fetch(endpoints.roles + '/' + id, getFetchOptions('DELETE'))
+      await fetch(endpoints.roles, getFetchOptions('POST', { name: 'Design' }))
+
+      const response = await fetch(endpoints.roles + '/' + id + '/restore', getFetchOptions('POST'))
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Role with given name already exists')
+    })
+
+    await it('returns 400 if role is not deleted', async () => {
+      const response = await fetch(
+        endpoints.roles + '/5237711f-7969-4923-aacc-a623a4e9dac1/restore',
+        getFetchOptions('POST')
+      )
+
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Role is not deleted')
+    })
+  })
+
+  await test('GET /roles/export', async () => {
+    await it('returns every role as CSV with its permissions and user count', async () => {
+      const response = await fetch(endpoints.roles + '/export?sort=name')
+      const rows = (await response.text()).trim().split('\r\n')
+
+      assert.strictEqual(rows[0], 'id,name,description,isDefault,permissions,userCount,createdAt,updatedAt,deletedAt')
+      assert.strictEqual(rows.length, 7)
+      assert.match(rows[4], /^1a235261-[\w-]+,Engineering,.*,false,users:write roles:read audit:read,10,/)
+    })
+  })
+
+  // ----------------
+  // Permission tests
+  // ----------------
+
+  await test('GET /permissions', async () => {
+    await it('returns the permission catalog', async () => {
+      const response = await fetch(endpoints.permissions)
+      const permissions = await response.json()
+
+      assert.ok(permissions.length)
+      for (const permission of permissions) {
+        assert.strictEqual(typeof permission.name, 'string')
+        assert.strictEqual(typeof permission.description, 'string')
+        assert.ok(Array.isArray(permission.implies))
+      }
+    })
+  })
+
+  // -----------
+  // Audit tests
+  // -----------
+
+  await test('GET /audit-events', async () => {
+    afterEach(() => server.reset())
+
+    await it('returns an empty page before any changes', async () => {
+      const response = await fetch(endpoints.auditEvents)
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data.length, 0)
+      assert.strictEqual(pagedData.total, 0)
+    })
+
+    await it('records the changed fields of an update', async () => {
+      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      await fetch(endpoints.users + '/' + id, {
+        method: 'PATCH',
+        headers: { 'content-type': 'application/json', 'x-actor': 'admin@example.com' },
+        body: JSON.stringify({ first: 'Max' }),
+      })
+
+      const response = await fetch(endpoints.auditEvents)
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data.length, 1)
+
+      const [event] = pagedData.data
+      assert.strictEqual(event.entityType, 'user')
+      assert.strictEqual(event.entityId, id)
+      assert.strictEqual(event.action, 'updated')
+      assert.strictEqual(event.actor, 'admin@example.com')
+      assert.deepStrictEqual(event.changes, { first: { before: 'Mark', after: 'Max' } })
+    })
+
+    await it('records the users reassigned by a role deletion', async () => {
+      const id = '5237711f-7969-4923-aacc-a623a4e9dac1'
+      await fetch(endpoints.roles + '/' + id, getFetchOptions('DELETE'))
+
+      const roleResponse = await fetch(endpoints.auditEvents + '?entityType=role')
+      const roleEvents = await roleResponse.json()
+
+      assert.strictEqual(roleEvents.data.length, 1)
+      assert.strictEqual(roleEvents.data[0].action, 'deleted')
+      assert.strictEqual(roleEvents.data[0].changes.deletedAt.before, null)
+
+      const userResponse = await fetch(endpoints.auditEvents + '?entityType=user')
+      const userEvents = await userResponse.json()
+
+      assert.strictEqual(userEvents.data.length, 2)
+      for (const event of userEvents.data) {
+        assert.strictEqual(event.causedBy, roleEvents.data[0].id)
+        assert.deepStrictEqual(event.changes.roleId, {
+          before: id,
+          after: '6c0a71c0-a5bc-44f8-8634-60f44840d92a',
+        })
+      }
+    })
+
+    await it('returns events filtered by entity, action and time range', async () => {
+      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      const since = new Date().toISOString()
+      await fetch(endpoints.users + '/' + id, getFetchOptions('PATCH', { first: 'Max' }))
+      await fetch(endpoints.users + '/' + id, getFetchOptions('DELETE'))
+
+      const response = await fetch(endpoints.auditEvents + `?entityId=${id}&action=deleted&since=${since}`)
+      const pagedData = await response.json()
+
+      assert.strictEqual(pagedData.data.length, 1)
+      assert.strictEqual(pagedData.data[0].action, 'deleted')
+
+      const untilResponse = await fetch(endpoints.auditEvents + `?entityId=${id}&until=${since}`)
+      const untilData = await untilResponse.json()
+
+      assert.strictEqual(untilData.data.length, 0)
     })
 
-    await it('returns 404 if user not found', async () => {
-      const response = await fetch(endpoints.users + '/not-a-user', getFetchOptions('DELETE'))
+    await it('returns 400 if a date is invalid', async () => {
+      const response = await fetch(endpoints.auditEvents + '?since=yesterday')
 
-      assert.strictEqual(response.status, 404)
+      assert.strictEqual(response.status, 400)
 
       const message = await response.json()
-      assert.strictEqual(message.message, 'User not found')
+      assert.strictEqual(message.message, 'Invalid date: yesterday')
     })
   })
 
-  // ----------
-  // Role tests
-  // ----------
+  // ------------
+  // Event tests
+  // ------------
 
-  await test('GET /roles', async () => {
-    await it('returns the 1st page of roles by default', async () => {
-      const response = await fetch(endpoints.roles)
-      const pagedData = await response.json()
+  await test('GET /events', async () => {
+    afterEach(() => server.reset())
 
-      assert.strictEqual(pagedData.data.length, 4)
-      assert.strictEqual(pagedData.next, null)
-      assert.strictEqual(pagedData.prev, null)
-      assert.strictEqual(pagedData.pages, 1)
+    await it('streams changes as they happen', async () => {
+      const controller = new AbortController()
+      const response = await fetch(endpoints.events, { signal: controller.signal })
+
+      assert.match(response.headers.get('content-type') as string, /^text\/event-stream/)
+
+      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      await fetch(endpoints.users + '/' + id, getFetchOptions('PATCH', { first: 'Max' }))
+
+      const [event] = await readEvents(response, 1)
+      controller.abort()
+
+      assert.strictEqual(event.event, 'user.updated')
+      assert.strictEqual(event.data.id, id)
+      assert.strictEqual(event.data.first, 'Max')
     })
 
-    await it('returns the 2nd page of roles', async () => {
-      const response = await fetch(endpoints.roles + '?page=2')
-      const pagedData = await response.json()
+    await it('resumes from the Last-Event-ID', async () => {
+      const controller = new AbortController()
+      const response = await fetch(endpoints.events, { signal: controller.signal })
 
-      assert.strictEqual(pagedData.data.length, 0)
-      assert.strictEqual(pagedData.next, null)
-      assert.strictEqual(pagedData.prev, 1)
-      assert.strictEqual(pagedData.pages, 1)
+      await fetch(endpoints.users + '/c7deb881-1939-4208-9a63-61a885f02d8f', getFetchOptions('DELETE'))
+      await fetch(endpoints.roles, getFetchOptions('POST', { name: 'Security' }))
+
+      const events = await readEvents(response, 2)
+      controller.abort()
+
+      assert.deepStrictEqual(
+        events.map(({ event }) => event),
+        ['user.deleted', 'role.created']
+      )
+
+      const resumeController = new AbortController()
+      const resumeResponse = await fetch(endpoints.events, {
+        headers: { 'last-event-id': events[0].id },
+        signal: resumeController.signal,
+      })
+      const [resumed] = await readEvents(resumeResponse, 1)
+      resumeController.abort()
+
+      assert.deepStrictEqual(resumed, events[1])
     })
 
-    await it('returns a filtered page of roles', async () => {
-      const response = await fetch(endpoints.roles + '?search=visual')
+    await it('asks the client to resync if the Last-Event-ID cannot be resumed', async () => {
+      const controller = new AbortController()
+      const response = await fetch(endpoints.events, {
+        headers: { 'last-event-id': '1000000' },
+        signal: controller.signal,
+      })
+      const [event] = await readEvents(response, 1)
+      controller.abort()
+
+      assert.strictEqual(event.event, 'resync')
+    })
+  })
+
+  // ------------------
+  // Organization tests
+  // ------------------
+
+  const acmeId = 'de039ba5-6111-4538-979b-ac9da89c82e5'
+  const globexId = 'eb96204b-52fa-484b-a9ac-5301656567f5'
+  const globex = endpoints.organizations + '/' + globexId
+  const globexRoleIds = {
+    admin: 'aed73e1a-d4d1-4074-8c44-f07fbb28de1b',
+    member: 'bb3be417-5775-4232-a8d8-d5e5434c5a76',
+  }
+  const acmeUserId = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+  const acmeRoleId = '1a235261-fa93-4845-ab48-ee23895998e6'
+
+  await test('GET /organizations', async () => {
+    await it('returns a page of organizations', async () => {
+      const response = await fetch(endpoints.organizations + '?sort=name')
       const pagedData = await response.json()
 
-      assert.strictEqual(pagedData.data.length, 1)
-      assert.strictEqual(pagedData.pages, 1)
+      assert.deepStrictEqual(
+        pagedData.data.map(({ name, isDefault }: { name: string; isDefault: boolean }) => ({ name, isDefault })),
+        [
+          { name: 'Acme', isDefault: true },
+          { name: 'Globex', isDefault: false },
+        ]
+      )
+    })
+
+    await it('returns an organization by id', async () => {
+      const response = await fetch(globex)
+      const organization = await response.json()
+
+      assert.strictEqual(organization.name, 'Globex')
+    })
+
+    await it('returns 404 if the organization does not exist', async () => {
+      for (const url of [endpoints.organizations + '/nope', endpoints.organizations + '/nope/users']) {
+        const response = await fetch(url)
+
+        assert.strictEqual(response.status, 404)
+
+        const message = await response.json()
+        assert.strictEqual(message.message, 'Organization not found')
+      }
     })
   })
 
-  await test('GET /roles/:id', async () => {
-    await it('returns a role', async () => {
-      const response = await fetch(endpoints.roles + '/1a235261-fa93-4845-ab48-ee23895998e6')
-      const role = await response.json()
+  await test('/organizations/:orgId', async () => {
+    afterEach(() => server.reset())
 
-      assert.strictEqual(role.name, 'Engineering')
-      assert.strictEqual(
-        role.description,
-        'Engineers build and maintain the software that powers our products and services.'
+    await it('serves only the users and roles of the organization', async () => {
+      const rolesResponse = await fetch(globex + '/roles?sort=name')
+      const roles = await rolesResponse.json()
+      const usersResponse = await fetch(globex + '/users')
+      const users = await usersResponse.json()
+      const acmeResponse = await fetch(endpoints.organizations + '/' + acmeId + '/users')
+      const acmeUsers = await acmeResponse.json()
+
+      assert.deepStrictEqual(
+        roles.data.map(({ name }: { name: string }) => name),
+        ['Admin', 'Member']
       )
+      assert.strictEqual(users.total, 0)
+      assert.strictEqual(acmeUsers.total, 16)
     })
 
-    await it('returns a 404 if role not found', async () => {
-      const response = await fetch(endpoints.roles + '/not-a-role')
+    await it('reports users and roles of other organizations as not found', async () => {
+      const userResponse = await fetch(globex + '/users/' + acmeUserId)
+      const roleResponse = await fetch(globex + '/roles/' + acmeRoleId, getFetchOptions('PATCH', { name: 'Mine' }))
+      const bulkResponse = await fetch(globex + '/users/bulk-delete', getFetchOptions('POST', { ids: [acmeUserId] }))
 
-      assert.strictEqual(response.status, 404)
+      assert.strictEqual(userResponse.status, 404)
+      assert.strictEqual(roleResponse.status, 404)
+      assert.strictEqual(bulkResponse.status, 400)
+      assert.strictEqual((await fetch(endpoints.users + '/' + acmeUserId)).status, 200)
+    })
+
+    await it('only gives users the roles of their own organization', async () => {
+      const user = { first: 'Ada', last: 'Lovelace', email: 'ada@example.com', roleId: acmeRoleId }
+      const response = await fetch(globex + '/users', getFetchOptions('POST', user))
+
+      assert.strictEqual(response.status, 400)
 
       const message = await response.json()
-      assert.strictEqual(message.message, 'Role not found')
+      assert.strictEqual(message.message, 'Referenced role not found')
+    })
+
+    await it('keeps role names and emails unique within each organization only', async () => {
+      const roleResponse = await fetch(globex + '/roles', getFetchOptions('POST', { name: 'Engineering' }))
+      const user = { first: 'Mark', last: 'Tipton', email: 'mark.tipton@example.com', roleId: globexRoleIds.member }
+      const userResponse = await fetch(globex + '/users', getFetchOptions('POST', user))
+      const duplicateResponse = await fetch(globex + '/users', getFetchOptions('POST', user))
+
+      assert.strictEqual(roleResponse.status, 200)
+      assert.strictEqual(userResponse.status, 200)
+      assert.strictEqual(duplicateResponse.status, 400)
+
+      const created = await userResponse.json()
+      assert.strictEqual(created.organizationId, globexId)
+    })
+
+    await it('keeps a default role for each organization', async () => {
+      const inviteResponse = await fetch(
+        globex + '/users/invite',
+        getFetchOptions('POST', { first: 'Ada', last: 'Lovelace', email: 'ada@example.com' })
+      )
+      const { user } = await inviteResponse.json()
+      await fetch(globex + '/roles/' + globexRoleIds.admin, getFetchOptions('PATCH', { isDefault: true }))
+      const rolesResponse = await fetch(endpoints.roles + '?limit=15')
+      const roles = await rolesResponse.json()
+      const memberResponse = await fetch(globex + '/roles/' + globexRoleIds.member)
+      const member = await memberResponse.json()
+
+      assert.strictEqual(user.roleId, globexRoleIds.member)
+      assert.strictEqual(member.isDefault, false)
+      const defaultRoles = roles.data.filter(({ isDefault }: { isDefault: boolean }) => isDefault)
+      assert.deepStrictEqual(
+        defaultRoles.map(({ name }: { name: string }) => name),
+        ['Support']
+      )
+    })
+
+    await it("moves the users of a deleted role to their organization's default role", async () => {
+      const user = { first: 'Ada', last: 'Lovelace', email: 'ada@example.com', roleId: globexRoleIds.admin }
+      const userResponse = await fetch(globex + '/users', getFetchOptions('POST', user))
+      const { id } = await userResponse.json()
+      await fetch(globex + '/roles/' + globexRoleIds.admin, getFetchOptions('DELETE'))
+      const response = await fetch(globex + '/users/' + id)
+      const moved = await response.json()
+
+      assert.strictEqual(moved.roleId, globexRoleIds.member)
+    })
+
+    await it('keeps the history and change stream of each organization apart', async () => {
+      const controller = new AbortController()
+      const response = await fetch(globex + '/events', { signal: controller.signal })
+      await fetch(endpoints.users + '/' + acmeUserId, getFetchOptions('PATCH', { first: 'Max' }))
+      await fetch(globex + '/roles', getFetchOptions('POST', { name: 'Security' }))
+      const [event] = await readEvents(response, 1)
+      controller.abort()
+
+      const globexEvents = await (await fetch(globex + '/audit-events')).json()
+      const acmeEvents = await (await fetch(endpoints.auditEvents)).json()
+
+      assert.strictEqual(event.event, 'role.created')
+      assert.deepStrictEqual(
+        globexEvents.data.map(({ entityType }: { entityType: string }) => entityType),
+        ['role']
+      )
+      assert.deepStrictEqual(
+        acmeEvents.data.map(({ entityType }: { entityType: string }) => entityType),
+        ['user']
+      )
     })
   })
 
-  await test('PATCH /roles/:id', async () => {
+  // -----------------
+  // Idempotency tests
+  // -----------------
+
+  function withIdempotencyKey(options: RequestInit, key: string) {
+    return { ...options, headers: { ...(options.headers as Record<string, string>), 'idempotency-key': key } }
+  }
+
+  await test('Idempotency-Key', async () => {
     afterEach(() => server.reset())
 
-    await it('returns the updated role', async () => {
-      const response = await fetch(
-        endpoints.roles + '/1a235261-fa93-4845-ab48-ee23895998e6',
-        getFetchOptions('PATCH', { name: 'Frontend Engineering' })
-      )
-      const user = await response.json()
+    const newUser = { first: 'Ada', last: 'Lovelace', email: 'ada@example.com', roleId: acmeRoleId }
+
+    await it('replays the first response to retries with the same key', async () => {
+      const options = withIdempotencyKey(getFetchOptions('POST', newUser), 'create-ada')
+      const firstResponse = await fetch(endpoints.users, options)
+      const first = await firstResponse.json()
+      const retryResponse = await fetch(endpoints.users, options)
+      const retry = await retryResponse.json()
+      const searchResponse = await fetch(endpoints.users + '?search=Lovelace')
+      const search = await searchResponse.json()
+
+      assert.strictEqual(firstResponse.status, 200)
+      assert.strictEqual(firstResponse.headers.get('idempotent-replayed'), null)
+      assert.strictEqual(retryResponse.status, 200)
+      assert.strictEqual(retryResponse.headers.get('idempotent-replayed'), 'true')
+      assert.strictEqual(retryResponse.headers.get('etag'), firstResponse.headers.get('etag'))
+      assert.deepStrictEqual(retry, first)
+      assert.strictEqual(search.total, 1)
+    })
 
-      assert.strictEqual(user.name, 'Frontend Engineering')
+    await it('replays errors too', async () => {
+      const options = withIdempotencyKey(getFetchOptions('POST', { ...newUser, email: 'nope' }), 'create-invalid')
+      const firstResponse = await fetch(endpoints.users, options)
+      const retryResponse = await fetch(endpoints.users, options)
+
+      assert.strictEqual(firstResponse.status, 422)
+      assert.strictEqual(retryResponse.status, 422)
+      assert.deepStrictEqual(await retryResponse.json(), await firstResponse.json())
     })
 
-    await it('updates the role', async () => {
-      const id = '1a235261-fa93-4845-ab48-ee23895998e6'
-      await fetch(endpoints.roles + '/' + id, getFetchOptions('PATCH', { name: 'Security' }))
+    await it('replays bulk operations', async () => {
+      const options = withIdempotencyKey(getFetchOptions('POST', { ids: [acmeUserId] }), 'delete-max')
+      const firstResponse = await fetch(endpoints.users + '/bulk-delete', options)
+      const retryResponse = await fetch(endpoints.users + '/bulk-delete', options)
+      const retry = await retryResponse.json()
 
-      const response = await fetch(endpoints.roles + '/' + id)
-      const user = await response.json()
+      assert.strictEqual(firstResponse.status, 200)
+      assert.strictEqual(retryResponse.status, 200)
+      assert.strictEqual(retry.results[0].status, 200)
+    })
 
-      assert.strictEqual(user.name, 'Security')
+    await it('forgets saved responses when a snapshot is restored', async () => {
+      const options = withIdempotencyKey(getFetchOptions('POST', newUser), 'create-ada')
+      await fetch(endpoints.admin + '/snapshots', getFetchOptions('POST', { name: 'before-ada' }))
+      await fetch(endpoints.users, options)
+      await fetch(endpoints.admin + '/snapshots/before-ada/restore', getFetchOptions('POST'))
+      const retryResponse = await fetch(endpoints.users, options)
+      const searchResponse = await fetch(endpoints.users + '?search=Lovelace')
+      const search = await searchResponse.json()
+
+      assert.strictEqual(retryResponse.status, 200)
+      assert.strictEqual(retryResponse.headers.get('idempotent-replayed'), null)
+      assert.strictEqual(search.total, 1)
+
+      await fetch(endpoints.admin + '/snapshots/before-ada', getFetchOptions('DELETE'))
     })
 
-    await it('returns 400 if role name already exists', async () => {
+    await it('returns 422 when the key is reused for a different request', async () => {
+      await fetch(endpoints.users, withIdempotencyKey(getFetchOptions('POST', newUser), 'create-ada'))
       const response = await fetch(
-        endpoints.roles + '/1a235261-fa93-4845-ab48-ee23895998e6',
-        getFetchOptions('PATCH', { name: 'Support' })
+        endpoints.users,
+        withIdempotencyKey(getFetchOptions('POST', { ...newUser, first: 'Augusta' }), 'create-ada')
       )
 
-      assert.strictEqual(response.status, 400)
+      assert.strictEqual(response.status, 422)
 
       const message = await response.json()
-      assert.strictEqual(message.message, 'Role with given name already exists')
+      assert.strictEqual(message.message, 'Idempotency key was used for a different request')
     })
 
-    await it('returns 400 if default role is unset', async () => {
+    await it('returns 400 for an invalid key', async () => {
       const response = await fetch(
-        endpoints.roles + '/6c0a71c0-a5bc-44f8-8634-60f44840d92a',
-        getFetchOptions('PATCH', { isDefault: false })
+        endpoints.roles,
+        withIdempotencyKey(getFetchOptions('POST', { name: 'Interns' }), 'k'.repeat(256))
       )
 
       assert.strictEqual(response.status, 400)
 
       const message = await response.json()
-      assert.strictEqual(message.message, 'Cannot unset default role')
+      assert.strictEqual(message.message, 'Invalid idempotency key')
     })
 
-    await it('returns 404 if role not found', async () => {
-      const response = await fetch(endpoints.roles + '/not-a-role', getFetchOptions('PATCH', { name: 'Admin' }))
+    await it('keeps the keys of each organization apart', async () => {
+      const options = withIdempotencyKey(getFetchOptions('POST', { name: 'Interns' }), 'create-interns')
+      const acmeResponse = await fetch(endpoints.roles, options)
+      const globexResponse = await fetch(globex + '/roles', options)
+      const acmeRole = await acmeResponse.json()
+      const globexRole = await globexResponse.json()
+
+      assert.strictEqual(globexResponse.status, 200)
+      assert.strictEqual(globexResponse.headers.get('idempotent-replayed'), null)
+      assert.notStrictEqual(globexRole.id, acmeRole.id)
+      assert.strictEqual(globexRole.organizationId, globexId)
+    })
 
-      assert.strictEqual(response.status, 404)
+    await it('forgets the keys when the data is reset', async () => {
+      const options = withIdempotencyKey(getFetchOptions('POST', newUser), 'create-ada')
+      await fetch(endpoints.users, options)
+      await fetch(endpoints.admin + '/reset', getFetchOptions('POST'))
+      const response = await fetch(endpoints.users, options)
 
-      const message = await response.json()
-      assert.strictEqual(message.message, 'Role not found')
+      assert.strictEqual(response.status, 200)
+      assert.strictEqual(response.headers.get('idempotent-replayed'), null)
     })
   })
 
-  await test('POST /roles', async () => {
-    afterEach(() => server.reset())
+  // -------------
+  // OpenAPI tests
+  // -------------
 
-    await it('returns a new role', async () => {
-      const response = await fetch(
-        endpoints.roles,
-        getFetchOptions('POST', {
-          name: 'Security',
-          description: 'Security engineers protect our products and services.',
-        })
-      )
-      const role = await response.json()
+  await test('GET /openapi.json', async () => {
+    await it('returns the OpenAPI document', async () => {
+      const response = await fetch(endpoints.openApi)
 
-      assert.strictEqual(role.name, 'Security')
-      assert.strictEqual(role.description, 'Security engineers protect our products and services.')
+      assert.strictEqual(response.status, 200)
+
+      const document = await response.json()
+      assert.strictEqual(document.openapi, '3.0.3')
+      assert.deepStrictEqual(document, JSON.parse(JSON.stringify(openApiDocument)))
     })
 
-    await it('adds a new role', async () => {
-      const response = await fetch(
-        endpoints.roles,
-        getFetchOptions('POST', {
-          name: 'Sales',
-          description: 'Sales team members sell our products and services.',
-        })
+    await it('reports responses that do not match the document', async () => {
+      assert.deepStrictEqual(checkResponse('GET', '/users/1', 200, 'application/json', '{"id":"1"}'), [
+        'GET /users/1 200: body.organizationId is required',
+        'GET /users/1 200: body.createdAt is required',
+        'GET /users/1 200: body.updatedAt is required',
+        'GET /users/1 200: body.first is required',
+        'GET /users/1 200: body.last is required',
+        'GET /users/1 200: body.email is required',
+        'GET /users/1 200: body.status is required',
+        'GET /users/1 200: body.roleId is required',
+      ])
+      assert.deepStrictEqual(checkResponse('PUT', '/users/1', 200, 'application/json', '{}'), [
+        'PUT /users/1 is not documented',
+      ])
+    })
+  })
+
+  // ---------------------
+  // Fault injection tests
+  // ---------------------
+
+  await test('/admin/chaos', async () => {
+    afterEach(() => fetch(endpoints.chaos, getFetchOptions('DELETE')))
+
+    await it('fails only the routes matching a profile', async () => {
+      const profileResponse = await fetch(
+        endpoints.chaos,
+        getFetchOptions('POST', { method: 'DELETE', path: '/users/:id', errorRate: 1, errorStatus: 503 })
       )
-      const role = await response.json()
+      const profile = await profileResponse.json()
 
-      const response2 = await fetch(endpoints.roles + '/' + role.id)
-      const role2 = await response2.json()
+      assert.strictEqual(profile.path, '/users/:id')
 
-      assert.strictEqual(role2.name, 'Sales')
-      assert.strictEqual(role2.description, 'Sales team members sell our products and services.')
+      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      const deleteResponse = await fetch(endpoints.users + '/' + id, getFetchOptions('DELETE'))
+
+      assert.strictEqual(deleteResponse.status, 503)
+      assert.strictEqual(deleteResponse.headers.get('retry-after'), '1')
+
+      const getResponse = await fetch(endpoints.users + '/' + id)
+
+      assert.strictEqual(getResponse.status, 200)
     })
 
-    await it('returns 400 if role.name missing', async () => {
-      const response = await fetch(endpoints.roles, getFetchOptions('POST', {}))
+    await it('matches routes served under an organization by their path without it', async () => {
+      const profile = { method: 'GET', path: '/users', errorRate: 1, errorStatus: 503 }
+      await fetch(endpoints.chaos, getFetchOptions('POST', profile))
+      const scopedResponse = await fetch(endpoints.organizations + '/' + acmeId + '/users')
+      const organizationResponse = await fetch(endpoints.organizations + '/' + acmeId)
 
-      assert.strictEqual(response.status, 400)
+      assert.strictEqual(scopedResponse.status, 503)
+      assert.strictEqual(organizationResponse.status, 200)
+    })
+
+    await it('lists and removes profiles', async () => {
+      const profileResponse = await fetch(endpoints.chaos, getFetchOptions('POST', { path: '/roles', errorRate: 1 }))
+      const profile = await profileResponse.json()
+
+      const listResponse = await fetch(endpoints.chaos)
+      const profiles = await listResponse.json()
+
+      assert.deepStrictEqual(profiles, [profile])
+
+      await fetch(endpoints.chaos + '/' + profile.id, getFetchOptions('DELETE'))
+      const rolesResponse = await fetch(endpoints.roles)
+
+      assert.strictEqual(rolesResponse.status, 200)
+    })
+
+    await it('injects an error status from the override headers', async () => {
+      const response = await fetch(endpoints.users, { headers: { 'x-chaos-error-status': '429' } })
+
+      assert.strictEqual(response.status, 429)
 
       const message = await response.json()
-      assert.strictEqual(message.message, 'Missing required field: name')
+      assert.strictEqual(message.message, 'Too Many Requests')
     })
 
-    await it('returns 400 if role name already exists', async () => {
-      const response = await fetch(endpoints.roles, getFetchOptions('POST', { name: 'Engineering' }))
+    await it('returns malformed JSON', async () => {
+      // Unchecked, since a malformed body can't match any schema
+      const response = await globalThis.fetch(endpoints.users, { headers: { 'x-chaos-failure': 'malformed' } })
+
+      assert.strictEqual(response.status, 200)
+      await assert.rejects(response.json())
+    })
+
+    await it('drops the connection', async () => {
+      await assert.rejects(fetch(endpoints.users, { headers: { 'x-chaos-failure': 'drop' } }))
+    })
+
+    await it('never responds when timing out', async () => {
+      await assert.rejects(
+        fetch(endpoints.users, { headers: { 'x-chaos-failure': 'timeout' }, signal: AbortSignal.timeout(100) })
+      )
+    })
+
+    await it('returns 422 if a profile is invalid', async () => {
+      const response = await fetch(endpoints.chaos, getFetchOptions('POST', { errorRate: 2, failure: 'explode' }))
+
+      assert.strictEqual(response.status, 422)
+
+      const body = await response.json()
+      assert.deepStrictEqual(body.errors, [
+        { field: 'errorRate', message: 'must be at most 1' },
+        { field: 'failure', message: 'must be one of: error, timeout, drop, malformed' },
+      ])
+    })
+
+    await it('returns 400 if an override header is invalid', async () => {
+      const response = await fetch(endpoints.users, { headers: { 'x-chaos-latency': 'slow' } })
 
       assert.strictEqual(response.status, 400)
 
+      const body = await response.json()
+      assert.strictEqual(body.message, 'Invalid chaos override headers')
+      assert.deepStrictEqual(body.errors[0], { field: 'minLatency', message: 'must be a number' })
+    })
+
+    await it('returns 404 if profile not found', async () => {
+      const response = await fetch(endpoints.chaos + '/not-a-profile', getFetchOptions('DELETE'))
+
+      assert.strictEqual(response.status, 404)
+
       const message = await response.json()
-      assert.strictEqual(message.message, 'Role with given name already exists')
+      assert.strictEqual(message.message, 'Chaos profile not found')
     })
   })
 
-  await test('DELETE /roles/:id', async () => {
+  // -----------
+  // Admin tests
+  // -----------
+
+  await test('/admin', async () => {
     afterEach(() => server.reset())
 
-    await it("returns a 'deleted' message", async () => {
-      const response = await fetch(
-        endpoints.roles + '/1a235261-fa93-4845-ab48-ee23895998e6',
-        getFetchOptions('DELETE')
-      )
+    await it('resets to the seed data', async () => {
+      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      await fetch(endpoints.users + '/' + id, getFetchOptions('DELETE'))
 
-      const role = await response.json()
+      const response = await fetch(endpoints.admin + '/reset', getFetchOptions('POST'))
 
-      assert.strictEqual(role.id, '1a235261-fa93-4845-ab48-ee23895998e6')
+      assert.strictEqual(response.status, 200)
+
+      const userResponse = await fetch(endpoints.users + '/' + id)
+      assert.strictEqual(userResponse.status, 200)
     })
 
-    await it('deletes the role', async () => {
-      const id = '1a235261-fa93-4845-ab48-ee23895998e6'
-      await fetch(endpoints.roles + '/' + id, getFetchOptions('DELETE'))
+    await it('saves, lists and restores a snapshot', async () => {
+      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      await fetch(endpoints.users + '/' + id, getFetchOptions('DELETE'))
 
-      const response = await fetch(endpoints.roles + '/' + id)
+      const saveResponse = await fetch(endpoints.admin + '/snapshots', getFetchOptions('POST', { name: 'no-mark' }))
+      const snapshot = await saveResponse.json()
 
-      assert.strictEqual(response.status, 404)
+      assert.strictEqual(snapshot.name, 'no-mark')
+      assert.strictEqual(snapshot.userCount, 15)
 
-      const message = await response.json()
-      assert.strictEqual(message.message, 'Role not found')
+      const listResponse = await fetch(endpoints.admin + '/snapshots')
+      const snapshots = await listResponse.json()
+
+      assert.deepStrictEqual(snapshots, [snapshot])
+
+      await fetch(endpoints.admin + '/reset', getFetchOptions('POST'))
+      const restoreResponse = await fetch(endpoints.admin + '/snapshots/no-mark/restore', getFetchOptions('POST'))
+
+      assert.strictEqual(restoreResponse.status, 200)
+
+      const userResponse = await fetch(endpoints.users + '/' + id)
+      assert.strictEqual(userResponse.status, 404)
+
+      await fetch(endpoints.admin + '/snapshots/no-mark', getFetchOptions('DELETE'))
     })
 
-    await it('updates all users with the role to the default role', async () => {
-      const rolesResponse = await fetch(endpoints.roles)
-      const roles = await rolesResponse.json()
-      const defaultRole = roles.data.find((role: { isDefault: boolean }) => role.isDefault)
+    await it('purges deleted records past the retention period', async () => {
+      const id = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+      await fetch(endpoints.users + '/' + id, getFetchOptions('DELETE'))
 
-      const usersBeforeResponse = await fetch(endpoints.users)
-      const usersBefore = await usersBeforeResponse.json()
+      const response = await fetch(endpoints.admin + '/purge', getFetchOptions('POST'))
+      const purged = await response.json()
 
-      const id = '1a235261-fa93-4845-ab48-ee23895998e6'
-      await fetch(endpoints.roles + '/' + id, getFetchOptions('DELETE'))
+      assert.deepStrictEqual(purged, { users: [id], roles: [] })
 
-      const usersAfterResponse = await fetch(endpoints.users)
-      const usersAfter = await usersAfterResponse.json()
+      const userResponse = await fetch(endpoints.users + '/' + id + '?includeDeleted=true')
+      assert.strictEqual(userResponse.status, 404)
 
-      const usersWithRole = usersBefore.data.filter((user: { roleId: string }) => user.roleId === id)
+      const restoreResponse = await fetch(endpoints.users + '/' + id + '/restore', getFetchOptions('POST'))
+      assert.strictEqual(restoreResponse.status, 404)
+    })
 
-      assert.strictEqual(usersWithRole.length, 7)
+    await it('returns 400 if snapshot name missing', async () => {
+      const response = await fetch(endpoints.admin + '/snapshots', getFetchOptions('POST', {}))
 
-      for (const userWithRole of usersWithRole) {
-        const userAfter = usersAfter.data.find(
-          (user: { id: string; roleId: string }) => userWithRole.id === user.id
-        )
-        assert.strictEqual(userAfter.roleId, defaultRole.id)
-      }
+      assert.strictEqual(response.status, 400)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Missing required field: name')
     })
 
-    await it('returns 404 if role not found', async () => {
-      const response = await fetch(endpoints.roles + '/not-a-role', getFetchOptions('DELETE'))
+    await it('returns 404 if snapshot not found', async () => {
+      const response = await fetch(endpoints.admin + '/snapshots/not-a-snapshot/restore', getFetchOptions('POST'))
 
       assert.strictEqual(response.status, 404)
 
       const message = await response.json()
-      assert.strictEqual(message.message, 'Role not found')
+      assert.strictEqual(message.message, 'Snapshot not found')
+    })
+
+    await it('returns 404 if admin routes are disabled', async () => {
+      const disabledServer = await startServer({ ...config, port: 3006, enableAdminRoutes: false })
+      const response = await fetch('http://localhost:3006/admin/reset', getFetchOptions('POST'))
+      disabledServer.stop()
+
+      assert.strictEqual(response.status, 404)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Admin routes are disabled')
     })
   })
 })
@@ -1,62 +1,671 @@
 import express from 'express'
 import cors from 'cors'
 import { fileURLToPath } from 'node:url'
-import { randomUUID } from 'node:crypto'
-import { data as rawData } from './data'
-
-import type { PagedData, User, Role } from './models'
+import { createHash, randomBytes } from 'node:crypto'
+import { createFileStore, createMemoryStore } from './store'
+import { chaosProfileSchema, roleSchema, snapshotSchema, userSchema, validate } from './schemas'
+import { createChangeStream } from './events'
+import { createFaultInjector, getOverrides, sendFailure } from './chaos'
+import { createRandom, createSeed } from './random'
+import { createRecorder, createReplayer } from './recorder'
+import { fullTextSearch, matchModes } from './search'
+import { getEffectivePermissions, permissionCatalog, sortPermissions } from './permissions'
+import { formatCsvRow, parseCsv } from './csv'
+import { openApiDocument } from './openapi'
+import { createRateLimiter } from './rate-limit'
+import { createIdempotencyCache } from './idempotency'
+
+import type {
+  AuditAction,
+  AuditChange,
+  AuditEntityType,
+  AuditEvent,
+  BulkResult,
+  ChangeEventType,
+  ImportResult,
+  ImportRowResult,
+  Organization,
+  PagedData,
+  Snapshot,
+  User,
+  UserStatus,
+  Role,
+} from './models'
+import type { Collection, Store, StoreData } from './store'
+import type { Schema } from './schemas'
+import type { NetworkEffects } from './chaos'
+import type { Recorder, Replayer, UnmatchedRequest } from './recorder'
+import type { MatchMode } from './search'
 
 const serverConfig = {
   port: +(process.env.SERVER_PORT || 3002),
   speed: getServerSpeed(),
   chanceOfServerError: 0.05,
   pageSize: 10,
+  maxPageSize: 100,
   requestLogging: true,
+  seed: getServerSeed(),
+  recordTo: process.env.SERVER_RECORD || null,
+  replayFrom: process.env.SERVER_REPLAY || null,
+  enableAdminRoutes: process.env.SERVER_ADMIN_ROUTES === 'true',
+  enableAuth: process.env.SERVER_AUTH === 'true',
+  purgeAfter: +(process.env.SERVER_PURGE_AFTER || 7 * 24 * 60 * 60),
+  purgeInterval: 60,
+  idempotencyWindow: +(process.env.SERVER_IDEMPOTENCY_WINDOW || 24 * 60 * 60),
+  rateLimit: {
+    enabled: process.env.SERVER_RATE_LIMIT === 'true',
+    reads: { capacity: 100, refillPerSecond: 10 },
+    writes: { capacity: 20, refillPerSecond: 2 },
+  },
 }
 
 const searchFields = {
+  organizations: ['name'],
   users: ['first', 'last'],
   roles: ['name', 'description'],
+  auditEvents: ['entityType', 'entityId', 'action'],
 }
 
-function sortBy<T extends User | Role>(a: T, b: T) {
-  return b.createdAt.localeCompare(a.createdAt)
+const sortFields = {
+  organizations: ['name', 'createdAt', 'updatedAt'],
+  users: ['first', 'last', 'role', 'createdAt', 'updatedAt'],
+  roles: ['name', 'description', 'isDefault', 'createdAt', 'updatedAt'],
+  auditEvents: ['entityType', 'action', 'createdAt'],
 }
 
-function fullTextSearch<T extends Record<string, any>>(data: T[], fields: string[], search: string) {
-  search = search.toLowerCase()
-  return data.filter((item) => {
-    for (const field of fields) {
-      if ((item[field] as string).toString().toLowerCase().includes(search)) {
-        return true
-      }
+const expandFields = {
+  users: ['role'],
+}
+
+const userStatuses: UserStatus[] = ['invited', 'active', 'suspended']
+
+const userImportColumns = ['first', 'last', 'email', 'role']
+
+type Entity = Organization | User | Role | AuditEvent
+
+type SortOrder = 'asc' | 'desc'
+
+/** Who made a request, as identified by its API key. */
+interface Caller {
+  keyId: string
+  name: string
+  roleId: string
+}
+
+class HttpError extends Error {
+  status: number
+  body: Record<string, unknown>
+
+  constructor(status: number, message: string, body: Record<string, unknown> = {}) {
+    super(message)
+    this.status = status
+    this.body = body
+  }
+}
+
+// Search relevance of the items in the current result set, for sorting by relevance
+const relevance = new WeakMap<object, number>()
+
+// The authenticated caller of each request, for handlers to authorize and attribute changes with
+const callers = new WeakMap<express.Request, Caller>()
+
+// The organization each request acts on, which every user, role and audit event it reaches has to belong to
+const requestOrganizations = new WeakMap<express.Request, Organization>()
+
+function getSortValue(item: Record<string, any>, field: string): string {
+  if (field === 'relevance') {
+    // Padded so that scores compare correctly as strings
+    return String(relevance.get(item) ?? 0).padStart(6, '0')
+  }
+
+  if (field === 'role') {
+    return store.roles.get(item.roleId)?.name ?? ''
+  }
+
+  return String(item[field] ?? '')
+}
+
+interface SortKey {
+  value: string
+  id: string
+}
+
+interface Cursor extends SortKey {
+  sort: string
+  order: SortOrder
+  before: boolean
+}
+
+function getSortKey(item: Entity, field: string): SortKey {
+  return { value: getSortValue(item, field), id: item.id }
+}
+
+function compareSortKeys(a: SortKey, b: SortKey, order: SortOrder) {
+  const direction = order === 'asc' ? 1 : -1
+  // Break ties on id so that equal values keep the same order between requests
+  return (a.value.localeCompare(b.value) || a.id.localeCompare(b.id)) * direction
+}
+
+function sortBy<T extends Entity>(field: string, order: SortOrder) {
+  return (a: T, b: T) => compareSortKeys(getSortKey(a, field), getSortKey(b, field), order)
+}
+
+function encodeCursor(cursor: Cursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+function decodeCursor(value: string): Cursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString())
+    const { sort, order, value: sortValue, id, before } = cursor
+    if (
+      typeof sort === 'string' &&
+      (order === 'asc' || order === 'desc') &&
+      typeof sortValue === 'string' &&
+      typeof id === 'string' &&
+      typeof before === 'boolean'
+    ) {
+      return { sort, order, value: sortValue, id, before }
     }
-  })
+  } catch {
+    // Fall through to the error below
+  }
+
+  throw new HttpError(400, 'Invalid cursor')
+}
+
+function getSortOptions(
+  req: express.Request,
+  sortFields: string[],
+  cursor?: Cursor
+): { field: string; order: SortOrder } {
+  // Results can only be ordered by relevance when there is a search to be relevant to
+  if (req.query.search) {
+    sortFields = [...sortFields, 'relevance']
+  }
+
+  if (cursor) {
+    // A cursor is only meaningful in the ordering it was created for
+    const { sort, order } = req.query
+    if (!sortFields.includes(cursor.sort) || (sort && sort !== cursor.sort) || (order && order !== cursor.order)) {
+      throw new HttpError(400, 'Invalid cursor')
+    }
+
+    return { field: cursor.sort, order: cursor.order }
+  }
+
+  const field = (req.query.sort as string) || (req.query.search ? 'relevance' : 'createdAt')
+  if (!sortFields.includes(field)) {
+    throw new HttpError(400, `Invalid sort field: ${field}`)
+  }
+
+  const order = (req.query.order as string) || (req.query.sort && field !== 'relevance' ? 'asc' : 'desc')
+  if (order !== 'asc' && order !== 'desc') {
+    throw new HttpError(400, `Invalid sort order: ${order}`)
+  }
+
+  return { field, order }
+}
+
+function getPageSize(req: express.Request) {
+  const limit = +(req.query.limit || serverConfig.pageSize) || serverConfig.pageSize
+  return Math.max(1, Math.min(Math.floor(limit), serverConfig.maxPageSize))
 }
 
-function getPagedData<T extends User | Role>(req: express.Request, data: T[], searchFields: string[]): PagedData<T> {
+function getMatchMode(req: express.Request): MatchMode {
+  const mode = (req.query.match as string) || 'substring'
+  if (!matchModes.includes(mode as MatchMode)) {
+    throw new HttpError(400, `Invalid match mode: ${mode}`)
+  }
+
+  return mode as MatchMode
+}
+
+function searchAndSort<T extends Entity>(
+  req: express.Request,
+  data: T[],
+  searchFields: string[],
+  { field, order }: { field: string; order: SortOrder }
+): T[] {
   const search = req.query.search as string
   if (search) {
-    data = fullTextSearch(data, searchFields, search)
+    const highlight = req.query.highlight === 'true'
+    data = fullTextSearch(data, searchFields, search, getMatchMode(req)).map(({ item, score, matches }) => {
+      const result = highlight ? { ...item, matches } : { ...item }
+      relevance.set(result, score)
+      return result
+    })
   }
 
-  data.sort(sortBy)
+  return [...data].sort(sortBy(field, order))
+}
+
+function getPagedData<T extends Entity>(
+  req: express.Request,
+  data: T[],
+  searchFields: string[],
+  sortFields: string[]
+): PagedData<T> {
+  const cursor = req.query.cursor ? decodeCursor(req.query.cursor as string) : undefined
+  const { field, order } = getSortOptions(req, sortFields, cursor)
+  const pageSize = getPageSize(req)
+
+  data = searchAndSort(req, data, searchFields, { field, order })
+
+  const total = data.length
+  const pages = Math.ceil(total / pageSize)
+  let start: number
+  let end: number
+  let next: number | null = null
+  let prev: number | null = null
+  if (cursor) {
+    // Locate the page by the position of the cursor's sort key rather than by offset, so rows
+    // created or deleted since the cursor was issued don't shift the page boundaries
+    const position = data.findIndex((item) => {
+      const result = compareSortKeys(getSortKey(item, field), cursor, order)
+      return cursor.before ? result >= 0 : result > 0
+    })
+    const boundary = position === -1 ? total : position
+    start = cursor.before ? Math.max(0, boundary - pageSize) : boundary
+    end = cursor.before ? boundary : Math.min(total, boundary + pageSize)
+  } else {
+    const page = +(req.query.page || 1) || 1
+    start = (page - 1) * pageSize
+    end = page * pageSize
+    next = page < pages ? page + 1 : null
+    prev = page > 1 ? page - 1 : null
+  }
+
+  const page = data.slice(start, end)
+  const first = page.length ? getSortKey(page[0], field) : cursor
+  const last = page.length ? getSortKey(page[page.length - 1], field) : cursor
+  const nextCursor =
+    last && end < total ? encodeCursor({ sort: field, order, value: last.value, id: last.id, before: false }) : null
+  const prevCursor =
+    first && start > 0 ? encodeCursor({ sort: field, order, value: first.value, id: first.id, before: true }) : null
 
-  const page = +(req.query.page || 1) || 1
-  const pages = Math.ceil(data.length / serverConfig.pageSize)
-  const next = page < pages ? page + 1 : null
-  const prev = page > 1 ? page - 1 : null
   return {
-    data: data.slice((page - 1) * serverConfig.pageSize, page * serverConfig.pageSize),
+    data: page,
     next,
     prev,
     pages,
+    total,
+    nextCursor,
+    prevCursor,
+  }
+}
+
+function sendCsv(res: express.Response, filename: string, columns: string[], rows: unknown[][]) {
+  res.type('text/csv')
+  res.attachment(filename)
+  // Written a row at a time so that large exports start arriving straight away
+  res.write(formatCsvRow(columns))
+  for (const row of rows) {
+    res.write(formatCsvRow(row))
   }
+  res.end()
 }
 
-function getEntity<T extends Record<string, any>>(req: express.Request, data: T[]): T | undefined {
-  const id = req.params.id as string
-  return data.find((item) => item.id === id)
+function getQueryValues(req: express.Request, name: string): string[] {
+  const value = req.query[name]
+  if (!value) {
+    return []
+  }
+
+  // Accept both repeated parameters (?a=1&a=2) and comma-separated lists (?a=1,2)
+  const values = Array.isArray(value) ? value : [value]
+  return values.flatMap((item) => item.toString().split(',')).filter(Boolean)
+}
+
+function getExpandOptions(req: express.Request, expandFields: string[]): string[] {
+  const expand = getQueryValues(req, 'expand')
+  const invalid = expand.find((field) => !expandFields.includes(field))
+  if (invalid) {
+    throw new HttpError(400, `Invalid expand field: ${invalid}`)
+  }
+
+  return expand
+}
+
+function getIncludeDeleted(req: express.Request): boolean {
+  return req.query.includeDeleted === 'true'
+}
+
+function filterDeleted<T extends User | Role>(req: express.Request, items: T[]): T[] {
+  return getIncludeDeleted(req) ? items : items.filter((item) => !item.deletedAt)
+}
+
+function filterUsers(req: express.Request, users: User[]): User[] {
+  const roleIds = getQueryValues(req, 'roleId')
+  if (roleIds.length) {
+    users = users.filter((user) => roleIds.includes(user.roleId))
+  }
+
+  const statuses = getQueryValues(req, 'status')
+  const invalid = statuses.find((status) => !userStatuses.includes(status as UserStatus))
+  if (invalid) {
+    throw new HttpError(400, `Invalid status: ${invalid}`)
+  }
+
+  if (statuses.length) {
+    users = users.filter((user) => statuses.includes(user.status))
+  }
+
+  return users
+}
+
+function expandUser(user: User, expand: string[]): User {
+  if (!expand.includes('role')) {
+    return user
+  }
+
+  return { ...user, role: store.roles.get(user.roleId) }
+}
+
+function withUserCount(role: Role): Role {
+  const users = store.users.list().filter((user) => user.roleId === role.id && !user.deletedAt)
+  return { ...role, userCount: users.length }
+}
+
+function getBulkIds(req: express.Request): string[] {
+  const { ids } = req.body
+  if (!Array.isArray(ids) || !ids.length) {
+    throw new HttpError(400, 'Missing required field: ids')
+  }
+
+  return [...new Set(ids.map(String))]
+}
+
+function runBulkOperation<T extends User | Role>(
+  req: express.Request,
+  res: express.Response,
+  collection: Collection<T>,
+  notFoundMessage: string,
+  apply: (item: T) => T
+) {
+  const ids = getBulkIds(req)
+  // All-or-nothing unless the client explicitly opts into partial success
+  const atomic = req.body.atomic !== false
+  const items = ids.map((id) => ({ id, item: findInOrganization(req, collection, id) }))
+
+  if (atomic && items.some(({ item }) => !item)) {
+    const result: BulkResult<T> = {
+      message: 'No changes were applied',
+      results: items.map(({ id, item }) =>
+        item ? { id, status: 424, message: 'Not applied' } : { id, status: 404, message: notFoundMessage }
+      ),
+    }
+    res.status(400).json(result)
+    return
+  }
+
+  const result: BulkResult<T> = commit(() => ({
+    results: items.map(({ id, item }) =>
+      item ? { id, status: 200, data: apply(item) } : { id, status: 404, message: notFoundMessage }
+    ),
+  }))
+  res.json(result)
+}
+
+function getETag(item: User | Role) {
+  // Hash the whole stored entity rather than just updatedAt, so two edits landing in the same
+  // millisecond still produce different tags
+  return `"${createHash('sha1').update(JSON.stringify(item)).digest('base64url')}"`
+}
+
+function sendEntity<T extends User | Role>(res: express.Response, item: T, body: T = item) {
+  res.set('ETag', getETag(item))
+  res.json(body)
+}
+
+function checkPrecondition(req: express.Request, res: express.Response, item: User | Role): boolean {
+  const ifMatch = req.get('If-Match')
+  if (!ifMatch) {
+    return true
+  }
+
+  const etag = getETag(item)
+  const tags = ifMatch.split(',').map((tag) => tag.trim())
+  if (tags.includes('*') || tags.includes(etag)) {
+    return true
+  }
+
+  res.set('ETag', etag)
+  res.status(412).json({ message: 'Precondition failed', data: item })
+  return false
+}
+
+function filterAuditEvents(req: express.Request, events: AuditEvent[]): AuditEvent[] {
+  const filters = {
+    entityType: getQueryValues(req, 'entityType'),
+    entityId: getQueryValues(req, 'entityId'),
+    action: getQueryValues(req, 'action'),
+  }
+  for (const [field, values] of Object.entries(filters)) {
+    if (values.length) {
+      events = events.filter((event) => values.includes(event[field as keyof typeof filters]))
+    }
+  }
+
+  const since = getDateParam(req, 'since')
+  if (since) {
+    events = events.filter((event) => event.createdAt >= since)
+  }
+
+  const until = getDateParam(req, 'until')
+  if (until) {
+    events = events.filter((event) => event.createdAt < until)
+  }
+
+  return events
+}
+
+function getDateParam(req: express.Request, name: string): string | undefined {
+  const value = req.query[name] as string
+  if (!value) {
+    return undefined
+  }
+
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new HttpError(400, `Invalid date: ${value}`)
+  }
+
+  return date.toISOString()
+}
+
+function getActor(req: express.Request | null): string | null {
+  // An authenticated caller can't claim to be someone else
+  return (req && callers.get(req)?.name) || req?.get('X-Actor') || null
+}
+
+function getChanges(before?: Record<string, any>, after?: Record<string, any>): Record<string, AuditChange> {
+  const changes: Record<string, AuditChange> = {}
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+  for (const field of fields) {
+    // updatedAt changes on every write and is already captured by the event's own timestamp
+    // Compared as JSON so that lists such as permissions count as changed only when their contents differ
+    if (field !== 'updatedAt' && JSON.stringify(before?.[field]) !== JSON.stringify(after?.[field])) {
+      changes[field] = { before: before?.[field] ?? null, after: after?.[field] ?? null }
+    }
+  }
+
+  return changes
+}
+
+function getAuditAction(before?: User | Role, after?: User | Role): AuditAction {
+  if (!before) {
+    return 'created'
+  }
+
+  // Deletes only set a tombstone, so an entity only goes away completely when it is purged
+  if (!after) {
+    return 'purged'
+  }
+
+  if (!before.deletedAt && after.deletedAt) {
+    return 'deleted'
+  }
+
+  return before.deletedAt && !after.deletedAt ? 'restored' : 'updated'
+}
+
+function recordAuditEvent(
+  req: express.Request | null,
+  entityType: AuditEntityType,
+  before: User | Role | undefined,
+  after: User | Role | undefined,
+  causedBy: string | null = null
+): AuditEvent {
+  const entity = (after ?? before) as User | Role
+  const action = getAuditAction(before, after)
+  pendingChanges.push({ type: `${entityType}.${action}`, data: entity })
+  return store.auditEvents.create({
+    id: random.uuid(),
+    createdAt: new Date().toISOString(),
+    organizationId: entity.organizationId,
+    entityType,
+    entityId: entity.id,
+    action,
+    changes: getChanges(before, after),
+    actor: getActor(req),
+    causedBy,
+  })
+}
+
+function commit<R>(fn: () => R): R {
+  // Change events are only published once the transaction has succeeded, so clients never see a rolled back change
+  try {
+    const result = store.transaction(fn)
+    for (const { type, data } of pendingChanges) {
+      changeStream.publish(type, data)
+    }
+
+    return result
+  } finally {
+    pendingChanges = []
+  }
+}
+
+function validateBody<T>(req: express.Request, schema: Schema<T>): Partial<T> {
+  const { value, errors } = validate(schema, req.body)
+  if (errors.length) {
+    throw new HttpError(422, 'Validation failed', { errors })
+  }
+
+  return value
+}
+
+function getActive<T extends User | Role>(collection: Collection<T>, id: string): T | undefined {
+  const item = collection.get(id)
+  return item && !item.deletedAt ? item : undefined
+}
+
+function getMissingFieldsMessage(fields: Record<string, unknown>): string {
+  const missingFields = Object.keys(fields).filter((field) => !fields[field])
+  return `Missing required field${missingFields.length > 1 ? 's' : ''}: ${missingFields.join(', ')}`
+}
+
+function getOrganization(req: express.Request): Organization {
+  return requestOrganizations.get(req) as Organization
+}
+
+function inOrganization<T extends User | Role | AuditEvent>(req: express.Request, items: T[]): T[] {
+  const { id } = getOrganization(req)
+  return items.filter((item) => item.organizationId === id)
+}
+
+function findInOrganization<T extends User | Role>(
+  req: express.Request,
+  collection: Collection<T>,
+  id: string,
+  includeDeleted = false
+): T | undefined {
+  // Entities of other organizations are reported the same as ones that don't exist
+  const item = includeDeleted ? collection.get(id) : getActive(collection, id)
+  return item?.organizationId === getOrganization(req).id ? item : undefined
+}
+
+function getEntity<T extends User | Role>(
+  req: express.Request,
+  collection: Collection<T>,
+  includeDeleted = false
+): T | undefined {
+  return findInOrganization(req, collection, req.params.id as string, includeDeleted)
+}
+
+function softDelete<T extends User | Role>(
+  req: express.Request,
+  entityType: AuditEntityType,
+  collection: Collection<T>,
+  item: T
+) {
+  const deletedAt = new Date().toISOString()
+  const deleted = collection.update(item.id, { deletedAt, updatedAt: deletedAt } as Partial<T>) as T
+  return { deleted, event: recordAuditEvent(req, entityType, item, deleted) }
+}
+
+function restore<T extends User | Role>(
+  req: express.Request,
+  entityType: AuditEntityType,
+  collection: Collection<T>,
+  item: T
+) {
+  const updatedAt = new Date().toISOString()
+  const restored = collection.update(item.id, { deletedAt: undefined, updatedAt } as Partial<T>) as T
+  return { restored, event: recordAuditEvent(req, entityType, item, restored) }
+}
+
+function restoreRoleMembers(req: express.Request, role: Role, causedBy: string) {
+  // Members were moved to the default role when the role was deleted. The audit events for those moves
+  // say where each member came from, so they are used to move the members back.
+  const deleteEvent = store.auditEvents
+    .list()
+    .filter((event) => event.entityType === 'role' && event.entityId === role.id && event.action === 'deleted')
+    .pop()
+  if (!deleteEvent) {
+    return
+  }
+
+  const updatedAt = new Date().toISOString()
+  for (const event of store.auditEvents.list()) {
+    const change = event.changes.roleId
+    if (event.causedBy !== deleteEvent.id || !change) {
+      continue
+    }
+
+    // Leave alone anyone who has been given another role since
+    const user = store.users.get(event.entityId)
+    if (user && user.roleId === change.after) {
+      const updated = store.users.update(user.id, { roleId: change.before as string, updatedAt })
+      recordAuditEvent(req, 'user', user, updated, causedBy)
+    }
+  }
+}
+
+function purgeDeleted(req: express.Request | null) {
+  const cutoff = new Date(Date.now() - serverConfig.purgeAfter * 1000).toISOString()
+  const isExpired = (item: User | Role) => !!item.deletedAt && item.deletedAt <= cutoff
+  const users = store.users.list().filter(isExpired)
+  const roles = store.roles.list().filter(isExpired)
+  if (users.length || roles.length) {
+    commit(() => {
+      for (const user of users) {
+        store.users.delete(user.id)
+        recordAuditEvent(req, 'user', user, undefined)
+        store.invitations
+          .list()
+          .filter((invitation) => invitation.userId === user.id)
+          .forEach((invitation) => store.invitations.delete(invitation.id))
+      }
+      for (const role of roles) {
+        store.roles.delete(role.id)
+        recordAuditEvent(req, 'role', role, undefined)
+      }
+    })
+  }
+
+  return { users: users.map(({ id }) => id), roles: roles.map(({ id }) => id) }
 }
 
 function updateField<T extends Record<string, any>>(item: T, field: string, value: any) {
@@ -68,107 +677,682 @@ function updateField<T extends Record<string, any>>(item: T, field: string, valu
   return false
 }
 
-function getDefaultRole(): Role {
-  return data.roles.find((role) => role.isDefault) as Role
+function findRoleByName(req: express.Request, name: string | undefined, excludeId?: string): Role | undefined {
+  // Deleted roles give up their name, so restoring one fails if the name has been taken since
+  return inOrganization(req, store.roles.list()).find(
+    (role) => role.name === name && role.id !== excludeId && !role.deletedAt
+  )
 }
 
-function clearDefaultRole() {
-  const defaultRole = getDefaultRole()
-  defaultRole.isDefault = false
+function findUserByEmail(req: express.Request, email: string | undefined, excludeId?: string): User | undefined {
+  // Emails are matched case-insensitively, and deleted users give up theirs like deleted roles give up their name.
+  // Like role names they only have to be unique within an organization, so one can't find out who is in another.
+  const normalized = email?.toLowerCase()
+  return inOrganization(req, store.users.list()).find(
+    (user) => user.email.toLowerCase() === normalized && user.id !== excludeId && !user.deletedAt
+  )
 }
 
-function getServerSpeed() {
-  switch (process.env.SERVER_SPEED) {
-    case 'slow':
-    case 'fast':
-    case 'instant':
-      return process.env.SERVER_SPEED
-    default:
-      return 'fast'
+function newUser(req: express.Request, fields: Pick<User, 'first' | 'last' | 'email' | 'status' | 'roleId'>): User {
+  const createdAt = new Date().toISOString()
+  return {
+    id: random.uuid(),
+    organizationId: getOrganization(req).id,
+    ...fields,
+    photo: `https://i.pravatar.cc/400?img=${random.int(0, 70)}`,
+    createdAt,
+    updatedAt: createdAt,
+  }
+}
+
+type ImportedUser = Pick<User, 'first' | 'last' | 'email' | 'roleId'>
+
+interface PlannedImportRow {
+  result: ImportRowResult
+  before?: User
+  after?: ImportedUser
+}
+
+function planUserImport(req: express.Request, csv: unknown): PlannedImportRow[] {
+  if (typeof csv !== 'string') {
+    throw new HttpError(415, 'Expected a text/csv body')
+  }
+
+  let records: string[][]
+  try {
+    records = parseCsv(csv)
+  } catch (error) {
+    throw new HttpError(400, `Invalid CSV: ${(error as Error).message}`)
+  }
+
+  // Other columns are ignored, so that an export can be edited and imported again
+  const [header = [], ...rows] = records
+  const columns = header.map((column) => column.trim())
+  const missingColumns = userImportColumns.filter((column) => !columns.includes(column))
+  if (missingColumns.length) {
+    const message = `Missing required column${missingColumns.length > 1 ? 's' : ''}: ${missingColumns.join(', ')}`
+    throw new HttpError(400, message)
+  }
+
+  const emails = new Set<string>()
+  return rows.map((values, index) => {
+    const row = index + 2
+    const record = Object.fromEntries(columns.map((column, i) => [column, values[i] ?? '']))
+    const { value, errors } = validate(userSchema, { first: record.first, last: record.last, email: record.email })
+    const role = findRoleByName(req, record.role.trim())
+    if (!record.role.trim()) {
+      errors.push({ field: 'role', message: 'must not be empty' })
+    } else if (!role) {
+      errors.push({ field: 'role', message: 'must be the name of an existing role' })
+    }
+
+    const email = value.email?.toLowerCase() ?? ''
+    if (emails.has(email)) {
+      errors.push({ field: 'email', message: 'is repeated from an earlier row' })
+    }
+    emails.add(email)
+
+    if (errors.length) {
+      return { result: { row, errors } }
+    }
+
+    const after = { first: value.first, last: value.last, email: value.email, roleId: role?.id } as ImportedUser
+    // Rows are matched to existing users by email
+    const before = findUserByEmail(req, value.email)
+    if (!before) {
+      return { result: { row, action: 'create', changes: getChanges(undefined, after) }, after }
+    }
+
+    const changes = getChanges(before, { ...before, ...after, email: before.email })
+    const action = Object.keys(changes).length ? 'update' : 'unchanged'
+    return { result: { row, action, id: before.id, changes }, before, after }
+  })
+}
+
+function setUserStatus(req: express.Request, user: User, status: UserStatus): User {
+  const updated = store.users.update(user.id, { status, updatedAt: new Date().toISOString() }) as User
+  recordAuditEvent(req, 'user', user, updated)
+  return updated
+}
+
+function getDefaultRole(req: express.Request): Role {
+  // Each organization has a default role of its own
+  return inOrganization(req, store.roles.list()).find((role) => role.isDefault) as Role
+}
+
+function clearDefaultRole(req: express.Request, causedBy: string) {
+  const defaultRole = getDefaultRole(req)
+  const updated = store.roles.update(defaultRole.id, { isDefault: false, updatedAt: new Date().toISOString() })
+  recordAuditEvent(req, 'role', defaultRole, updated, causedBy)
+}
+
+function getServerStore(): Store {
+  // Keep data across restarts when a data file is configured, otherwise start fresh from the seed data
+  return process.env.SERVER_DATA_FILE ? createFileStore(process.env.SERVER_DATA_FILE) : createMemoryStore()
+}
+
+function getServerSpeed() {
+  switch (process.env.SERVER_SPEED) {
+    case 'slow':
+    case 'fast':
+    case 'instant':
+      return process.env.SERVER_SPEED
+    default:
+      return 'fast'
+  }
+}
+
+function getServerSeed() {
+  // Without an explicit seed, pick one at random so the run can still be replayed from the logged value
+  const seed = parseInt(process.env.SERVER_SEED ?? '', 10)
+  return Number.isNaN(seed) ? createSeed() : seed
+}
+
+function getDefaultNetworkEffects(): NetworkEffects {
+  let minLatency = 0
+  let maxLatency = 0
+  if (serverConfig.speed === 'slow') {
+    // between 1000ms and 2000ms
+    minLatency = 1000
+    maxLatency = 2000
+  } else if (serverConfig.speed === 'fast') {
+    // between 500ms and 1000ms
+    minLatency = 500
+    maxLatency = 1000
+  }
+
+  return { minLatency, maxLatency, errorRate: serverConfig.chanceOfServerError, errorStatus: 500, failure: 'error' }
+}
+
+function getNetworkEffects(req: express.Request): NetworkEffects {
+  const { errors } = validate(chaosProfileSchema, getOverrides(req))
+  if (errors.length) {
+    throw new HttpError(400, 'Invalid chaos override headers', { errors })
+  }
+
+  return faultInjector.getEffects(req, getDefaultNetworkEffects())
+}
+
+function getClientKey(req: express.Request): string {
+  // Callers with an API key get a budget of their own. Everyone else is told apart by address, since anything else
+  // they send, such as X-Actor, is up to them.
+  const caller = callers.get(req)
+  return caller ? `key:${caller.keyId}` : `ip:${req.ip}`
+}
+
+// API keys and invitation tokens are only stored as hashes, so that a copy of the data doesn't give them away
+function hashSecret(secret: string) {
+  return createHash('sha256').update(secret).digest('hex')
+}
+
+function getApiKey(req: express.Request): string | undefined {
+  const authorization = req.get('Authorization')
+  if (authorization === undefined) {
+    return req.get('X-API-Key')
+  }
+
+  // Anything other than a bearer token is returned as an empty key, so that it fails as invalid
+  return /^Bearer\s+(\S+)$/i.exec(authorization)?.[1] ?? ''
+}
+
+function authenticate(req: express.Request, res: express.Response, next: () => void) {
+  const key = getApiKey(req)
+  if (!serverConfig.enableAuth || key === undefined) {
+    next()
+    return
+  }
+
+  const apiKey = store.apiKeys.get(hashSecret(key))
+  // Invalid keys are throttled by address before they are rejected, so that keys can't be guessed at full speed
+  if (!apiKey && !takeRateLimit(req, res, `ip:${req.ip}`)) {
+    return
+  }
+
+  if (!apiKey) {
+    res.set('WWW-Authenticate', 'Bearer error="invalid_token"')
+    res.status(401).json({ message: 'Invalid API key' })
+    return
+  }
+
+  callers.set(req, { keyId: apiKey.id, name: apiKey.name, roleId: apiKey.roleId })
+  next()
+}
+
+function getCallerOrganizationId(req: express.Request): string | undefined {
+  const caller = callers.get(req)
+  return caller && store.roles.get(caller.roleId)?.organizationId
+}
+
+function scopeToOrganization(req: express.Request, res: express.Response, next: () => void) {
+  // An API key only works in the organization of its role, which is also where requests that don't name one go
+  const callerOrganizationId = getCallerOrganizationId(req)
+  const id = req.params.orgId ?? callerOrganizationId
+  const organization = id
+    ? store.organizations.get(id)
+    : store.organizations.list().find((organization) => organization.isDefault)
+  if (!organization) {
+    res.status(404).json({ message: 'Organization not found' })
+    return
+  }
+
+  if (callerOrganizationId && organization.id !== callerOrganizationId) {
+    res.status(403).json({ message: 'API key belongs to another organization' })
+    return
+  }
+
+  // Requests without a key act on the default organization, so every other one needs a key of its own
+  if (serverConfig.enableAuth && !callers.has(req) && !organization.isDefault) {
+    res.set('WWW-Authenticate', 'Bearer')
+    res.status(401).json({ message: 'Authentication required' })
+    return
+  }
+
+  requestOrganizations.set(req, organization)
+  next()
+}
+
+function hasPermission(req: express.Request, permission: string): boolean {
+  if (!serverConfig.enableAuth) {
+    return true
+  }
+
+  // Permissions come from the role as it is now, so changes to the role apply to its keys straight away
+  const caller = callers.get(req)
+  const role = caller && getActive(store.roles, caller.roleId)
+  return !!role && getEffectivePermissions(role.permissions).includes(permission)
+}
+
+function requirePermission(permission: string): express.RequestHandler {
+  return (req, res, next) => {
+    if (serverConfig.enableAuth && !callers.has(req)) {
+      res.set('WWW-Authenticate', 'Bearer')
+      res.status(401).json({ message: 'Authentication required' })
+      return
+    }
+
+    if (!hasPermission(req, permission)) {
+      res.status(403).json({ message: `Missing permission: ${permission}` })
+      return
+    }
+
+    next()
+  }
+}
+
+// Only admins can hand out or take away admin, so a role holding it can't be changed with roles:write alone
+function checkAdminRole(req: express.Request, res: express.Response, ...permissions: (string[] | undefined)[]) {
+  if (permissions.some((granted) => granted?.includes('admin')) && !hasPermission(req, 'admin')) {
+    res.status(403).json({ message: 'Missing permission: admin' })
+    return false
+  }
+
+  return true
+}
+
+/** Takes a request from the client's budget, answering 429 and returning false once it is spent. */
+function takeRateLimit(req: express.Request, res: express.Response, clientKey: string): boolean {
+  if (!serverConfig.rateLimit.enabled) {
+    return true
+  }
+
+  const isRead = ['GET', 'HEAD', 'OPTIONS'].includes(req.method)
+  const budget = isRead ? serverConfig.rateLimit.reads : serverConfig.rateLimit.writes
+  const result = rateLimiter.take(`${isRead ? 'reads' : 'writes'}:${clientKey}`, budget)
+  res.set({
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.reset),
+    'RateLimit-Policy': `${budget.capacity};w=${Math.ceil(budget.capacity / budget.refillPerSecond)}`,
+  })
+  if (!result.allowed) {
+    res.set('Retry-After', String(result.retryAfter))
+    res.status(429).json({ message: 'Rate limit exceeded' })
+    return false
+  }
+
+  return true
+}
+
+function limitRate(req: express.Request, res: express.Response, next: () => void) {
+  if (takeRateLimit(req, res, getClientKey(req))) {
+    next()
+  }
+}
+
+function idempotent(req: express.Request, res: express.Response, next: () => void) {
+  const key = req.get('Idempotency-Key')
+  if (key === undefined) {
+    next()
+    return
+  }
+
+  if (!key || key.length > 255) {
+    res.status(400).json({ message: 'Invalid idempotency key' })
+    return
+  }
+
+  // Keys are kept apart for each organization and caller, so that nobody is answered with someone else's response
+  const cacheKey = `${getOrganization(req).id}:${getClientKey(req)}:${key}`
+  const fingerprint = createHash('sha256')
+    .update(`${req.method} ${req.url}\n${JSON.stringify(req.body)}`)
+    .digest('base64url')
+  const result = idempotencyCache.begin(cacheKey, fingerprint, serverConfig.idempotencyWindow)
+  if (result.kind === 'mismatch') {
+    res.status(422).json({ message: 'Idempotency key was used for a different request' })
+    return
+  }
+
+  if (result.kind === 'inProgress') {
+    res.status(409).json({ message: 'A request with this idempotency key is in progress' })
+    return
+  }
+
+  if (result.kind === 'replay') {
+    res.set({ ...result.response.headers, 'Idempotent-Replayed': 'true' })
+    res.status(result.response.status).json(result.response.body)
+    return
+  }
+
+  const json = res.json.bind(res)
+  res.json = (body) => {
+    // Server errors aren't saved, so that trying again handles the request again
+    if (res.statusCode < 500) {
+      const etag = res.get('ETag')
+      idempotencyCache.complete(cacheKey, { status: res.statusCode, headers: etag ? { ETag: etag } : {}, body })
+    }
+    return json(body)
+  }
+  res.on('close', () => idempotencyCache.release(cacheKey))
+  next()
+}
+
+function logWithNetworkEffects(req: express.Request, res: express.Response, next: () => void) {
+  const effects = getNetworkEffects(req)
+  const { minLatency, maxLatency } = effects
+  const latencyInMs = random.int(minLatency, Math.max(minLatency, maxLatency))
+
+  const serverError = random.next() < effects.errorRate
+
+  if (serverConfig.requestLogging) {
+    const failure = effects.failure === 'error' ? `${effects.errorStatus} Error` : `${effects.failure}`
+    const serverErrorMessage = serverError ? ` (${failure})` : ''
+    const latencyMessage = latencyInMs ? ` (+${latencyInMs}ms)` : ''
+    console.log(`${req.method} ${req.path}${latencyMessage}${serverErrorMessage}`)
+  }
+
+  function afterDelay() {
+    if (serverError) {
+      sendFailure(res, effects)
+      return
+    }
+
+    next()
+  }
+
+  if (latencyInMs) {
+    setTimeout(afterDelay, latencyInMs)
+    return
+  }
+
+  afterDelay()
+}
+
+// ------------
+// Server Setup
+// ------------
+
+let store = createMemoryStore()
+let pendingChanges: { type: ChangeEventType; data: User | Role }[] = []
+const changeStream = createChangeStream()
+const faultInjector = createFaultInjector()
+const rateLimiter = createRateLimiter()
+const idempotencyCache = createIdempotencyCache()
+let random = createRandom(serverConfig.seed)
+let recorder: Recorder | null = null
+let replayer: Replayer | null = null
+const snapshots = new Map<string, { snapshot: Snapshot; data: StoreData }>()
+
+const api = express()
+api.use(
+  cors({
+    exposedHeaders: [
+      'ETag',
+      'Content-Disposition',
+      'WWW-Authenticate',
+      'Retry-After',
+      'RateLimit-Limit',
+      'RateLimit-Remaining',
+      'RateLimit-Reset',
+      'RateLimit-Policy',
+      'Idempotent-Replayed',
+    ],
+  })
+)
+api.use(express.json())
+
+// The change stream is registered ahead of the simulated network effects, since a long-lived connection
+// that randomly fails on open would only add noise. It still needs the caller, to stream only their organization,
+// who must be able to read both users and roles, since the stream carries changes to either.
+api.get(
+  ['/events', '/organizations/:orgId/events'],
+  authenticate,
+  scopeToOrganization,
+  requirePermission('users:read'),
+  requirePermission('roles:read'),
+  (req, res) => {
+    const { id } = getOrganization(req)
+    changeStream.connect(req, res, (event) => event.data.organizationId === id)
+  }
+)
+
+// Documentation is for reading, so it isn't subject to the simulated network effects either
+api.get('/openapi.json', (req, res) => {
+  res.json(openApiDocument)
+})
+
+// ------------
+// Admin Routes
+// ------------
+
+// Like the change stream, admin routes are registered ahead of the simulated network effects so that they
+// stay reachable whatever faults are configured. They can reset or replace all data, so they have to be
+// switched on explicitly.
+api.use('/admin', (req, res, next) => {
+  if (!serverConfig.enableAdminRoutes) {
+    res.status(404).json({ message: 'Admin routes are disabled' })
+    return
+  }
+
+  next()
+})
+
+// With authentication on, they also need an API key that grants admin
+api.use('/admin', authenticate, requirePermission('admin'))
+
+api.post('/admin/reset', (req, res) => {
+  store.reset()
+  random = createRandom(serverConfig.seed)
+  // Saved responses describe data that no longer exists
+  idempotencyCache.clear()
+  res.json({ message: 'Data reset' })
+})
+
+api.get('/admin/snapshots', (req, res) => {
+  res.json([...snapshots.values()].map(({ snapshot }) => snapshot))
+})
+
+api.post('/admin/snapshots', (req, res) => {
+  const { name } = validateBody(req, snapshotSchema)
+  if (!name) {
+    res.status(400).json({ message: 'Missing required field: name' })
+    return
+  }
+
+  const data = store.dump()
+  const snapshot = {
+    name,
+    createdAt: new Date().toISOString(),
+    userCount: data.users.filter((user) => !user.deletedAt).length,
+    roleCount: data.roles.filter((role) => !role.deletedAt).length,
+  }
+
+  // Saving under an existing name replaces that snapshot
+  snapshots.set(name, { snapshot, data })
+  res.json(snapshot)
+})
+
+api.post('/admin/snapshots/:name/restore', (req, res) => {
+  const saved = snapshots.get(req.params.name)
+  if (!saved) {
+    res.status(404).json({ message: 'Snapshot not found' })
+    return
+  }
+
+  store.load(saved.data)
+  // Saved responses may describe changes the snapshot doesn't have, as after a reset
+  idempotencyCache.clear()
+  res.json(saved.snapshot)
+})
+
+api.delete('/admin/snapshots/:name', (req, res) => {
+  const saved = snapshots.get(req.params.name)
+  if (!saved) {
+    res.status(404).json({ message: 'Snapshot not found' })
+    return
+  }
+
+  snapshots.delete(req.params.name)
+  res.json(saved.snapshot)
+})
+
+api.post('/admin/purge', (req, res) => {
+  res.json(purgeDeleted(req))
+})
+
+api.get('/admin/chaos', (req, res) => {
+  res.json(faultInjector.list())
+})
+
+api.post('/admin/chaos', (req, res) => {
+  const profile = validateBody(req, chaosProfileSchema)
+  res.json(faultInjector.add({ ...profile, id: random.uuid() }))
+})
+
+api.delete('/admin/chaos', (req, res) => {
+  faultInjector.clear()
+  res.json(faultInjector.list())
+})
+
+api.delete('/admin/chaos/:id', (req, res) => {
+  const profile = faultInjector.remove(req.params.id)
+  if (!profile) {
+    res.status(404).json({ message: 'Chaos profile not found' })
+    return
   }
-}
 
-function logWithNetworkEffects(req: express.Request, res: express.Response, next: () => void) {
-  let latencyInMs = 0
-  if (serverConfig.speed === 'slow') {
-    latencyInMs = Math.floor(Math.random() * 1000) + 1000 // between 1000ms and 2000ms
-  } else if (serverConfig.speed === 'fast') {
-    latencyInMs = Math.floor(Math.random() * 500) + 500 // between 500ms and 1000ms
-  }
+  res.json(profile)
+})
 
-  const serverError = Math.random() < serverConfig.chanceOfServerError
+// ----------------
+// Record or Replay
+// ----------------
 
-  if (serverConfig.requestLogging) {
-    const serverErrorMessage = serverError ? ' (Server Error)' : ''
-    const latencyMessage = latencyInMs ? ` (+${latencyInMs}ms)` : ''
-    console.log(`${req.method} ${req.path}${latencyMessage}${serverErrorMessage}`)
-  }
+// Text bodies are otherwise only parsed by the routes that take them, which replays never reach
+const recordedTextBody = express.text({ type: 'text/*', limit: '1mb' })
 
-  function afterDelay() {
-    if (serverError) {
-      res.status(500).json({ message: 'Server Error' })
-      return
+// Sits in front of the simulated network effects so that recordings capture them, and replays reproduce
+// them from the fixture instead of generating new ones
+api.use((req, res, next) => (recorder || replayer ? recordedTextBody(req, res, next) : next()))
+api.use((req, res, next) => {
+  if (replayer) {
+    if (!replayer.handle(req, res) && serverConfig.requestLogging) {
+      console.log(`${req.method} ${req.originalUrl} (No recorded response)`)
     }
-
-    next()
+    return
   }
 
-  if (latencyInMs) {
-    setTimeout(afterDelay, latencyInMs)
+  if (recorder) {
+    recorder.handle(req, res, next)
     return
   }
 
-  afterDelay()
-}
+  next()
+})
 
-function resetData(): { users: User[]; roles: Role[] } {
-  return {
-    users: rawData.users.map((user) => ({ ...user })),
-    roles: rawData.roles.map((role) => ({ ...role })),
+// Callers are identified before they are throttled, so that each API key gets a budget of its own. Reads are open
+// to anyone, and routes that make changes check the caller's permissions themselves.
+api.use(authenticate)
+
+// Throttled requests are turned away before any simulated latency or failure, like a gateway in front of the
+// API would. The change stream, documentation and admin routes are registered earlier, so they are never throttled.
+api.use(limitRate)
+api.use(logWithNetworkEffects)
+
+// -------------------
+// Organization Routes
+// -------------------
+
+// With authentication on, callers only see their own organization: the one of their API key, or the default one
+function getVisibleOrganizations(req: express.Request): Organization[] {
+  const organizations = store.organizations.list()
+  if (!serverConfig.enableAuth) {
+    return organizations
   }
+
+  const callerOrganizationId = getCallerOrganizationId(req)
+  return organizations.filter((organization) =>
+    callerOrganizationId ? organization.id === callerOrganizationId : organization.isDefault
+  )
 }
 
-// ------------
-// Server Setup
-// ------------
+api.get('/organizations', (req, res) => {
+  const organizations = getVisibleOrganizations(req)
+  res.json(getPagedData<Organization>(req, organizations, searchFields.organizations, sortFields.organizations))
+})
 
-let data = resetData()
+api.get('/organizations/:orgId', (req, res) => {
+  const organization = getVisibleOrganizations(req).find(({ id }) => id === req.params.orgId)
+  if (!organization) {
+    res.status(404).json({ message: 'Organization not found' })
+    return
+  }
 
-const api = express()
-api.use(cors())
-api.use(logWithNetworkEffects)
-api.use(express.json())
+  res.json(organization)
+})
+
+// Users, roles and audit events are served under the organization they belong to. Without one in the path, requests
+// act on the organization of their API key, or the default organization, so clients of a single organization
+// don't have to name it.
+const routes = express.Router()
+api.use('/organizations/:orgId', scopeToOrganization, routes)
+api.use(scopeToOrganization, routes)
 
 // -----------
 // User Routes
 // -----------
 
-api.get('/users', (req, res) => {
-  res.json(getPagedData<User>(req, data.users, searchFields.users))
+routes.get('/users', requirePermission('users:read'), (req, res) => {
+  const expand = getExpandOptions(req, expandFields.users)
+  const users = filterUsers(req, filterDeleted(req, inOrganization(req, store.users.list())))
+  const pagedData = getPagedData<User>(req, users, searchFields.users, sortFields.users)
+  res.json({ ...pagedData, data: pagedData.data.map((user) => expandUser(user, expand)) })
 })
 
-api.get('/users/:id', (req, res) => {
-  const user = getEntity<User>(req, data.users)
+// Registered ahead of /users/:id, which would otherwise treat "export" as an id
+routes.get('/users/export', requirePermission('users:read'), (req, res) => {
+  const users = filterUsers(req, filterDeleted(req, inOrganization(req, store.users.list())))
+  const sorted = searchAndSort(req, users, searchFields.users, getSortOptions(req, sortFields.users))
+  const columns = ['id', 'first', 'last', 'email', 'status', 'role', 'createdAt', 'updatedAt', 'deletedAt']
+  sendCsv(res, 'users.csv', columns, sorted.map((user) => columns.map((column) => getSortValue(user, column))))
+})
+
+routes.get('/users/:id', requirePermission('users:read'), (req, res) => {
+  const expand = getExpandOptions(req, expandFields.users)
+  const user = getEntity<User>(req, store.users, getIncludeDeleted(req))
+  if (!user) {
+    res.status(404).json({ message: 'User not found' })
+    return
+  }
+
+  sendEntity(res, user, expandUser(user, expand))
+})
+
+routes.get('/users/:id/permissions', requirePermission('users:read'), (req, res) => {
+  const user = getEntity<User>(req, store.users)
   if (!user) {
-    res.status(404)
+    res.status(404).json({ message: 'User not found' })
+    return
   }
 
-  res.json(user ? user : { message: 'User not found' })
+  // Users who haven't accepted their invitation, or have been suspended, can't do anything yet
+  const role = store.roles.get(user.roleId) as Role
+  res.json(user.status === 'active' ? getEffectivePermissions(role.permissions) : [])
 })
 
-api.patch('/users/:id', (req, res) => {
-  const user = getEntity<User>(req, data.users)
+routes.patch('/users/:id', requirePermission('users:write'), (req, res) => {
+  const user = getEntity<User>(req, store.users)
   if (!user) {
     res.status(404).json({ message: 'User not found' })
     return
   }
 
-  const { first, last, roleId } = req.body
+  if (!checkPrecondition(req, res, user)) {
+    return
+  }
+
+  const { first, last, email, roleId } = validateBody(req, userSchema)
+  if (findUserByEmail(req, email, user.id)) {
+    res.status(400).json({ message: 'User with given email already exists' })
+    return
+  }
+
+  const before = { ...user }
   let updated = false
   updated = updateField(user, 'first', first) || updated
   updated = updateField(user, 'last', last) || updated
+  updated = updateField(user, 'email', email) || updated
   if (roleId) {
-    const role = data.roles.find((role) => role.id === roleId)
+    const role = findInOrganization(req, store.roles, roleId)
     if (!role) {
       res.status(400).json({ message: 'Referenced role not found' })
       return
@@ -180,99 +1364,358 @@ api.patch('/users/:id', (req, res) => {
 
   if (updated) {
     user.updatedAt = new Date().toISOString()
+    commit(() => {
+      store.users.update(user.id, user)
+      recordAuditEvent(req, 'user', before, user)
+    })
   }
 
-  res.json(user)
+  sendEntity(res, user)
 })
 
-api.post('/users', (req, res) => {
-  const { first, last, roleId } = req.body
+routes.post('/users', requirePermission('users:write'), idempotent, (req, res) => {
+  const { first, last, email, roleId } = validateBody(req, userSchema)
+
+  if (!first || !last || !email || !roleId) {
+    res.status(400).json({ message: getMissingFieldsMessage({ first, last, email, roleId }) })
+    return
+  }
 
-  const missingFields = [...(!first ? ['first'] : []), ...(!last ? ['last'] : []), ...(!roleId ? ['roleId'] : [])]
-  if (missingFields.length) {
-    const message = `Missing required field${missingFields.length > 1 ? 's' : ''}: ${missingFields.join(', ')}`
-    res.status(400).json({ message })
+  if (findUserByEmail(req, email)) {
+    res.status(400).json({ message: 'User with given email already exists' })
     return
   }
 
-  const role = data.roles.find((role) => role.id === roleId)
+  const role = findInOrganization(req, store.roles, roleId)
   if (!role) {
     res.status(400).json({ message: 'Referenced role not found' })
     return
   }
 
-  const id = randomUUID()
-  const createdAt = new Date().toISOString()
-  const updatedAt = createdAt
-  const photo = `https://i.pravatar.cc/400?img=${Math.floor(Math.random() * 70)}}`
+  const user = newUser(req, { first, last, email, status: 'active', roleId })
+  commit(() => {
+    store.users.create(user)
+    recordAuditEvent(req, 'user', undefined, user)
+  })
+  sendEntity(res, user)
+})
 
-  const user = {
-    id,
-    first,
-    last,
-    roleId,
-    photo,
-    createdAt,
-    updatedAt,
+routes.delete('/users/:id', requirePermission('users:delete'), (req, res) => {
+  const user = getEntity<User>(req, store.users)
+  if (!user) {
+    res.status(404).json({ message: 'User not found' })
+    return
+  }
+
+  if (!checkPrecondition(req, res, user)) {
+    return
+  }
+
+  const { deleted } = commit(() => softDelete(req, 'user', store.users, user))
+  res.json(deleted)
+})
+
+routes.post('/users/:id/restore', requirePermission('users:delete'), (req, res) => {
+  const user = getEntity<User>(req, store.users, true)
+  if (!user) {
+    res.status(404).json({ message: 'User not found' })
+    return
+  }
+
+  if (!checkPrecondition(req, res, user)) {
+    return
+  }
+
+  if (!user.deletedAt) {
+    res.status(400).json({ message: 'User is not deleted' })
+    return
+  }
+
+  if (findUserByEmail(req, user.email, user.id)) {
+    res.status(400).json({ message: 'User with given email already exists' })
+    return
+  }
+
+  const { restored } = commit(() => restore(req, 'user', store.users, user))
+  sendEntity(res, restored)
+})
+
+// ----------------
+// Bulk User Routes
+// ----------------
+
+routes.post('/users/bulk-delete', requirePermission('users:delete'), idempotent, (req, res) => {
+  runBulkOperation<User>(req, res, store.users, 'User not found', (user) => {
+    return softDelete(req, 'user', store.users, user).deleted
+  })
+})
+
+routes.post('/users/bulk-assign-role', requirePermission('users:write'), idempotent, (req, res) => {
+  const { roleId } = req.body
+  if (!roleId) {
+    res.status(400).json({ message: 'Missing required field: roleId' })
+    return
+  }
+
+  const role = findInOrganization(req, store.roles, roleId)
+  if (!role) {
+    res.status(400).json({ message: 'Referenced role not found' })
+    return
+  }
+
+  const updatedAt = new Date().toISOString()
+  runBulkOperation<User>(req, res, store.users, 'User not found', (user) => {
+    if (user.roleId === roleId) {
+      return user
+    }
+
+    const updated = store.users.update(user.id, { roleId, updatedAt }) as User
+    recordAuditEvent(req, 'user', user, updated)
+    return updated
+  })
+})
+
+const csvBody = express.text({ type: 'text/csv', limit: '1mb' })
+
+routes.post('/users/import', requirePermission('users:write'), csvBody, idempotent, (req, res) => {
+  const dryRun = req.query.dryRun === 'true'
+  const planned = planUserImport(req, req.body)
+  const rows = planned.map(({ result }) => result)
+  const count = (action?: string) => rows.filter((row) => row.action === action).length
+  const result: ImportResult = {
+    dryRun,
+    created: count('create'),
+    updated: count('update'),
+    unchanged: count('unchanged'),
+    failed: count(undefined),
+    rows,
+  }
+
+  // Like the bulk routes, nothing is imported unless every row can be
+  if (result.failed) {
+    res.status(dryRun ? 200 : 400).json(dryRun ? result : { message: 'No changes were applied', ...result })
+    return
+  }
+
+  if (!dryRun) {
+    commit(() => {
+      for (const { result, before, after } of planned) {
+        if (result.action === 'create') {
+          const user = newUser(req, { ...(after as ImportedUser), status: 'active' })
+          store.users.create(user)
+          recordAuditEvent(req, 'user', undefined, user)
+          result.id = user.id
+        } else if (result.action === 'update') {
+          const { first, last, roleId } = after as ImportedUser
+          const updatedAt = new Date().toISOString()
+          const updated = store.users.update(result.id as string, { first, last, roleId, updatedAt })
+          recordAuditEvent(req, 'user', before, updated)
+        }
+      }
+    })
+  }
+
+  res.json(result)
+})
+
+// ------------------
+// User Status Routes
+// ------------------
+
+routes.post('/users/invite', requirePermission('users:write'), idempotent, (req, res) => {
+  const { first, last, email, roleId = getDefaultRole(req).id } = validateBody(req, userSchema)
+  if (!first || !last || !email) {
+    res.status(400).json({ message: getMissingFieldsMessage({ first, last, email }) })
+    return
+  }
+
+  if (!findInOrganization(req, store.roles, roleId)) {
+    res.status(400).json({ message: 'Referenced role not found' })
+    return
+  }
+
+  if (findUserByEmail(req, email)) {
+    res.status(400).json({ message: 'User with given email already exists' })
+    return
+  }
+
+  const user = newUser(req, { first, last, email, status: 'invited', roleId })
+  // Anyone holding the token can accept, so it comes from a secure source rather than the seeded one
+  const token = randomBytes(32).toString('base64url')
+  const invitation = { id: hashSecret(token), userId: user.id, createdAt: user.createdAt }
+
+  commit(() => {
+    store.users.create(user)
+    store.invitations.create(invitation)
+    recordAuditEvent(req, 'user', undefined, user)
+  })
+
+  // There is no mail to send the token in, so it goes back to the inviter instead
+  res.json({ token, user })
+})
+
+// Open to anyone, since the invitation token is what proves who is accepting, and in which organization
+routes.post('/users/accept-invite', (req, res) => {
+  const { token } = req.body
+  if (!token) {
+    res.status(400).json({ message: 'Missing required field: token' })
+    return
+  }
+
+  const invitation = store.invitations.get(hashSecret(String(token)))
+  const user = invitation && getActive(store.users, invitation.userId)
+  if (!invitation || !user) {
+    res.status(404).json({ message: 'Invitation not found' })
+    return
+  }
+
+  const accepted = commit(() => {
+    store.invitations.delete(invitation.id)
+    return setUserStatus(req, user, 'active')
+  })
+
+  sendEntity(res, accepted)
+})
+
+routes.post('/users/:id/suspend', requirePermission('users:write'), (req, res) => {
+  const user = getEntity<User>(req, store.users)
+  if (!user) {
+    res.status(404).json({ message: 'User not found' })
+    return
+  }
+
+  if (!checkPrecondition(req, res, user)) {
+    return
+  }
+
+  if (user.status !== 'active') {
+    res.status(400).json({ message: 'User is not active' })
+    return
   }
 
-  data.users.push(user)
-  res.json(user)
+  sendEntity(res, commit(() => setUserStatus(req, user, 'suspended')))
 })
 
-api.delete('/users/:id', (req, res) => {
-  const user = getEntity<User>(req, data.users)
+routes.post('/users/:id/reactivate', requirePermission('users:write'), (req, res) => {
+  const user = getEntity<User>(req, store.users)
   if (!user) {
     res.status(404).json({ message: 'User not found' })
     return
   }
 
-  data.users = data.users.filter((item) => item.id !== user.id)
+  if (!checkPrecondition(req, res, user)) {
+    return
+  }
+
+  if (user.status !== 'suspended') {
+    res.status(400).json({ message: 'User is not suspended' })
+    return
+  }
 
-  res.json(user)
+  sendEntity(res, commit(() => setUserStatus(req, user, 'active')))
 })
 
 // -----------
 // Role Routes
 // -----------
 
-api.get('/roles', (req, res) => {
-  res.json(getPagedData<Role>(req, data.roles, searchFields.roles))
+routes.get('/roles', requirePermission('roles:read'), (req, res) => {
+  const roles = filterDeleted(req, inOrganization(req, store.roles.list()))
+  const pagedData = getPagedData<Role>(req, roles, searchFields.roles, sortFields.roles)
+  res.json({ ...pagedData, data: pagedData.data.map(withUserCount) })
+})
+
+routes.get('/roles/export', requirePermission('roles:read'), (req, res) => {
+  const roles = filterDeleted(req, inOrganization(req, store.roles.list())).map(withUserCount)
+  const sorted = searchAndSort(req, roles, searchFields.roles, getSortOptions(req, sortFields.roles))
+  const columns = [
+    'id',
+    'name',
+    'description',
+    'isDefault',
+    'permissions',
+    'userCount',
+    'createdAt',
+    'updatedAt',
+    'deletedAt',
+  ]
+  sendCsv(
+    res,
+    'roles.csv',
+    columns,
+    sorted.map((role) =>
+      columns.map((column) => (column === 'permissions' ? role.permissions.join(' ') : getSortValue(role, column)))
+    )
+  )
+})
+
+routes.get('/roles/:id', requirePermission('roles:read'), (req, res) => {
+  const role = getEntity<Role>(req, store.roles, getIncludeDeleted(req))
+  if (!role) {
+    res.status(404).json({ message: 'Role not found' })
+    return
+  }
+
+  sendEntity(res, role, withUserCount(role))
 })
 
-api.get('/roles/:id', (req, res) => {
-  const role = getEntity<Role>(req, data.roles)
+routes.get('/roles/:id/users', requirePermission('roles:read'), requirePermission('users:read'), (req, res) => {
+  const role = getEntity<Role>(req, store.roles, getIncludeDeleted(req))
   if (!role) {
-    res.status(404)
+    res.status(404).json({ message: 'Role not found' })
+    return
   }
 
-  res.json(role ? role : { message: 'Role not found' })
+  const expand = getExpandOptions(req, expandFields.users)
+  const users = filterDeleted(req, store.users.list()).filter((user) => user.roleId === role.id)
+  const pagedData = getPagedData<User>(req, users, searchFields.users, sortFields.users)
+  res.json({ ...pagedData, data: pagedData.data.map((user) => expandUser(user, expand)) })
 })
 
-api.patch('/roles/:id', (req, res) => {
-  const role = getEntity<Role>(req, data.roles)
+routes.patch('/roles/:id', requirePermission('roles:write'), (req, res) => {
+  const role = getEntity<Role>(req, store.roles)
   if (!role) {
     res.status(404).json({ message: 'Role not found' })
     return
   }
 
-  const { name, description, isDefault } = req.body
+  if (!checkPrecondition(req, res, role)) {
+    return
+  }
+
+  const { name, description, isDefault, permissions } = validateBody(req, roleSchema)
+  if (!checkAdminRole(req, res, role.permissions, permissions)) {
+    return
+  }
+
   const { id } = role
-  if (data.roles.find((role) => role.name === name && role.id !== id)) {
+  if (findRoleByName(req, name, id)) {
     res.status(400).json({ message: 'Role with given name already exists' })
     return
   }
 
+  const before = { ...role }
   let updated = false
   updated = updateField(role, 'name', name) || updated
   updated = updateField(role, 'description', description) || updated
+  if (permissions) {
+    const sorted = sortPermissions(permissions)
+    if (sorted.join() !== role.permissions.join()) {
+      role.permissions = sorted
+      updated = true
+    }
+  }
+  if (isDefault === true && !role.isDefault && !hasPermission(req, 'admin')) {
+    res.status(403).json({ message: 'Missing permission: admin' })
+    return
+  }
+
   if (isDefault !== role.isDefault) {
     if (isDefault === false) {
       res.status(400).json({ message: 'Cannot unset default role' })
       return
     }
     if (isDefault === true) {
-      clearDefaultRole()
       role.isDefault = true
       updated = true
     }
@@ -280,91 +1723,247 @@ api.patch('/roles/:id', (req, res) => {
 
   if (updated) {
     role.updatedAt = new Date().toISOString()
+    commit(() => {
+      const event = recordAuditEvent(req, 'role', before, role)
+      if (role.isDefault && !before.isDefault) {
+        clearDefaultRole(req, event.id)
+      }
+      store.roles.update(role.id, role)
+    })
   }
 
-  res.json(role)
+  sendEntity(res, role)
 })
 
-api.post('/roles', (req, res) => {
-  const { name, description = '', isDefault = false } = req.body
+routes.post('/roles', requirePermission('roles:write'), idempotent, (req, res) => {
+  const { name, description = '', isDefault = false, permissions = [] } = validateBody(req, roleSchema)
   if (!name) {
     res.status(400).json({ message: 'Missing required field: name' })
     return
   }
 
-  if (data.roles.find((role) => role.name === name)) {
+  // Making a role the default decides what every new user can do, so it takes more than creating roles
+  if (isDefault && !hasPermission(req, 'admin')) {
+    res.status(403).json({ message: 'Missing permission: admin' })
+    return
+  }
+
+  if (!checkAdminRole(req, res, permissions)) {
+    return
+  }
+
+  if (findRoleByName(req, name)) {
     res.status(400).json({ message: 'Role with given name already exists' })
     return
   }
 
-  const id = randomUUID()
+  const id = random.uuid()
   const createdAt = new Date().toISOString()
   const updatedAt = createdAt
-  if (isDefault === true) {
-    clearDefaultRole()
-  }
 
   const role = {
     id,
+    organizationId: getOrganization(req).id,
     name,
     description,
     isDefault,
+    permissions: sortPermissions(permissions),
     createdAt,
     updatedAt,
   }
 
-  data.roles.push(role)
-  res.json(role)
+  commit(() => {
+    const event = recordAuditEvent(req, 'role', undefined, role)
+    if (isDefault === true) {
+      clearDefaultRole(req, event.id)
+    }
+    store.roles.create(role)
+  })
+  sendEntity(res, role)
 })
 
-api.delete('/roles/:id', (req, res) => {
-  const role = getEntity<Role>(req, data.roles)
+routes.delete('/roles/:id', requirePermission('roles:delete'), (req, res) => {
+  const role = getEntity<Role>(req, store.roles)
   if (!role) {
     res.status(404).json({ message: 'Role not found' })
     return
   }
 
+  if (!checkPrecondition(req, res, role)) {
+    return
+  }
+
   if (role.isDefault) {
     res.status(400).json({ message: 'Cannot delete default role' })
     return
   }
 
-  const defaultRole = getDefaultRole()
-  data.users.filter((user) => user.roleId === role.id).forEach((user) => (user.roleId = defaultRole.id))
+  if (!checkAdminRole(req, res, role.permissions)) {
+    return
+  }
+
+  const defaultRole = getDefaultRole(req)
+  const deleted = commit(() => {
+    const { deleted, event } = softDelete(req, 'role', store.roles, role)
+
+    // Deleted users are moved too, so that restoring them never brings back a reference to a deleted role
+    store.users
+      .list()
+      .filter((user) => user.roleId === role.id)
+      .forEach((user) => {
+        const updated = store.users.update(user.id, { roleId: defaultRole.id, updatedAt: deleted.updatedAt })
+        recordAuditEvent(req, 'user', user, updated, event.id)
+      })
+
+    return deleted
+  })
+
+  res.json(deleted)
+})
+
+routes.post('/roles/:id/restore', requirePermission('roles:delete'), (req, res) => {
+  const role = getEntity<Role>(req, store.roles, true)
+  if (!role) {
+    res.status(404).json({ message: 'Role not found' })
+    return
+  }
+
+  if (!checkPrecondition(req, res, role)) {
+    return
+  }
+
+  if (!role.deletedAt) {
+    res.status(400).json({ message: 'Role is not deleted' })
+    return
+  }
+
+  if (!checkAdminRole(req, res, role.permissions)) {
+    return
+  }
+
+  if (findRoleByName(req, role.name, role.id)) {
+    res.status(400).json({ message: 'Role with given name already exists' })
+    return
+  }
+
+  const restored = commit(() => {
+    const { restored, event } = restore(req, 'role', store.roles, role)
+    restoreRoleMembers(req, role, event.id)
+    return restored
+  })
+
+  sendEntity(res, restored)
+})
+
+// -----------------
+// Permission Routes
+// -----------------
+
+api.get('/permissions', (req, res) => {
+  res.json(permissionCatalog)
+})
+
+// ------------
+// Audit Routes
+// ------------
+
+routes.get('/audit-events', requirePermission('audit:read'), (req, res) => {
+  const events = filterAuditEvents(req, inOrganization(req, store.auditEvents.list()))
+  res.json(getPagedData<AuditEvent>(req, events, searchFields.auditEvents, sortFields.auditEvents))
+})
+
+// --------------
+// Error Handling
+// --------------
+
+api.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  // Bodies that aren't JSON, or are JSON but not an object or array, fail in express.json before reaching a route
+  if ((err as Error & { type?: string }).type === 'entity.parse.failed') {
+    res.status(400).json({ message: 'Invalid JSON body' })
+    return
+  }
 
-  data.roles = data.roles.filter((item) => item.id !== role.id)
+  if (!(err instanceof HttpError)) {
+    next(err)
+    return
+  }
 
-  res.json(role)
+  res.status(err.status).json({ message: err.message, ...err.body })
 })
 
 // ---------------
 // Start Listening
 // ---------------
 
-export function startServer(config: typeof serverConfig): Promise<{ stop: () => void; reset: () => void }> {
+export function startServer(
+  config: typeof serverConfig,
+  serverStore: Store = createMemoryStore()
+): Promise<{ stop: () => void; reset: () => void; unmatched: () => UnmatchedRequest[] }> {
   serverConfig.port = config.port
   serverConfig.speed = config.speed
   serverConfig.pageSize = config.pageSize
+  serverConfig.maxPageSize = config.maxPageSize
   serverConfig.requestLogging = config.requestLogging
   serverConfig.chanceOfServerError = config.chanceOfServerError
+  serverConfig.seed = config.seed
+  serverConfig.recordTo = config.recordTo
+  serverConfig.replayFrom = config.replayFrom
+  serverConfig.enableAdminRoutes = config.enableAdminRoutes
+  serverConfig.enableAuth = config.enableAuth
+  serverConfig.purgeAfter = config.purgeAfter
+  serverConfig.purgeInterval = config.purgeInterval
+  serverConfig.idempotencyWindow = config.idempotencyWindow
+  serverConfig.rateLimit = config.rateLimit
+  random = createRandom(config.seed)
+  store = serverStore
+  recorder = config.recordTo ? createRecorder(config.recordTo) : null
+  replayer = config.replayFrom ? createReplayer(config.replayFrom) : null
+  rateLimiter.clear()
+  idempotencyCache.clear()
 
   return new Promise((resolve) => {
     const server = api.listen(config.port, () => {
+      // A purge interval of 0 turns the purge job off, leaving purges to POST /admin/purge
+      const purgeTimer = config.purgeInterval
+        ? setInterval(() => purgeDeleted(null), config.purgeInterval * 1000)
+        : undefined
+
       resolve({
-        stop: () => server.close(),
+        stop: () => {
+          clearInterval(purgeTimer)
+          changeStream.close()
+          server.close()
+          server.closeAllConnections()
+        },
         reset: () => {
-          data = resetData()
+          store.reset()
+          random = createRandom(serverConfig.seed)
+          rateLimiter.clear()
+          idempotencyCache.clear()
         },
+        unmatched: () => replayer?.unmatched() ?? [],
       })
     })
   })
 }
 
 if (process.argv[1] === fileURLToPath(import.meta.url)) {
-  await startServer(serverConfig)
+  await startServer(serverConfig, getServerStore())
 
   console.log('\n\x1b[1m  API Endpoints:\x1b[0m')
+  console.log(`  ➜  http://localhost:${serverConfig.port}/organizations`)
   console.log(`  ➜  http://localhost:${serverConfig.port}/users`)
   console.log(`  ➜  http://localhost:${serverConfig.port}/roles`)
-  console.log(`\n\x1b[1m  Server Speed:\x1b[0m ${serverConfig.speed}\n`)
+  console.log(`  ➜  http://localhost:${serverConfig.port}/permissions`)
+  console.log(`  ➜  http://localhost:${serverConfig.port}/audit-events`)
+  console.log(`  ➜  http://localhost:${serverConfig.port}/events`)
+  console.log(`\n\x1b[1m  Server Speed:\x1b[0m ${serverConfig.speed}`)
+  console.log(`\x1b[1m  Server Seed:\x1b[0m ${serverConfig.seed}`)
+  if (serverConfig.recordTo) {
+    console.log(`\x1b[1m  Recording To:\x1b[0m ${serverConfig.recordTo}`)
+  }
+  if (serverConfig.replayFrom) {
+    console.log(`\x1b[1m  Replaying From:\x1b[0m ${serverConfig.replayFrom}`)
+  }
+  console.log()
 }
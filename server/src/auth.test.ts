@@ -0,0 +1,332 @@
+import { test, it, afterEach } from 'node:test'
+import assert from 'node:assert'
+import { startServer } from './api'
+import { testConfig } from './test-config'
+import { createClient } from './client'
+
+const config = { ...testConfig, port: 3009, enableAuth: true }
+
+const endpoints = {
+  users: 'http://localhost:3009/users',
+  roles: 'http://localhost:3009/roles',
+  auditEvents: 'http://localhost:3009/audit-events',
+  organizations: 'http://localhost:3009/organizations',
+  events: 'http://localhost:3009/events',
+  admin: 'http://localhost:3009/admin',
+}
+
+// Seeded API keys, see data.ts
+const keys = {
+  admin: 'dev-admin-key',
+  engineering: 'dev-engineering-key',
+  viewer: 'dev-viewer-key',
+  globex: 'dev-globex-key',
+}
+
+const userId = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+const engineeringRoleId = '1a235261-fa93-4845-ab48-ee23895998e6'
+const adminRoleId = '9049ecb0-a428-4fff-badd-791a434fb77c'
+const acmeId = 'de039ba5-6111-4538-979b-ac9da89c82e5'
+const globexId = 'eb96204b-52fa-484b-a9ac-5301656567f5'
+
+function getFetchOptions(method: string, key?: string, body?: unknown) {
+  const headers: Record<string, string> = key ? { authorization: `Bearer ${key}` } : {}
+  return body
+    ? { method, headers: { ...headers, 'content-type': 'application/json' }, body: JSON.stringify(body) }
+    : { method, headers }
+}
+
+const server = await startServer(config)
+
+await test('Authentication', async () => {
+  afterEach(() => server.reset())
+
+  await it('returns 401 for reads without an API key', async () => {
+    for (const endpoint of [endpoints.users, endpoints.roles, endpoints.auditEvents, endpoints.events]) {
+      const response = await fetch(endpoint)
+
+      assert.strictEqual(response.status, 401)
+      assert.strictEqual(response.headers.get('www-authenticate'), 'Bearer')
+    }
+  })
+
+  await it('returns 401 for changes without an API key', async () => {
+    const response = await fetch(endpoints.users + '/' + userId, getFetchOptions('PATCH', undefined, { first: 'Max' }))
+
+    assert.strictEqual(response.status, 401)
+    assert.strictEqual(response.headers.get('www-authenticate'), 'Bearer')
+
+    const message = await response.json()
+    assert.strictEqual(message.message, 'Authentication required')
+  })
+
+  await it('returns 401 for an unknown API key, even when reading', async () => {
+    for (const headers of [{ authorization: 'Bearer not-a-key' }, { authorization: 'Basic YTpi' }]) {
+      const response = await fetch(endpoints.users, { headers })
+
+      assert.strictEqual(response.status, 401)
+
+      const message = await response.json()
+      assert.strictEqual(message.message, 'Invalid API key')
+    }
+  })
+
+  await it('accepts the key as a bearer token or in X-API-Key', async () => {
+    const body = JSON.stringify({ first: 'Max' })
+    const headers = { 'content-type': 'application/json', 'x-api-key': keys.engineering }
+    const response = await fetch(endpoints.users + '/' + userId, { method: 'PATCH', headers, body })
+    const bearerResponse = await fetch(
+      endpoints.users + '/' + userId,
+      getFetchOptions('PATCH', keys.engineering, { first: 'Maxine' })
+    )
+
+    assert.strictEqual(response.status, 200)
+    assert.strictEqual(bearerResponse.status, 200)
+  })
+
+  await it('lets invited users accept without an API key', async () => {
+    const inviteResponse = await fetch(
+      endpoints.users + '/invite',
+      getFetchOptions('POST', keys.admin, { first: 'Ada', last: 'Lovelace', email: 'ada@example.com' })
+    )
+    const { token } = await inviteResponse.json()
+    const response = await fetch(endpoints.users + '/accept-invite', getFetchOptions('POST', undefined, { token }))
+
+    assert.strictEqual(response.status, 200)
+  })
+
+  await it('lets invited users of other organizations accept without naming theirs', async () => {
+    const inviteResponse = await fetch(
+      endpoints.users + '/invite',
+      getFetchOptions('POST', keys.globex, { first: 'Ada', last: 'Lovelace', email: 'ada@example.com' })
+    )
+    const { token, user } = await inviteResponse.json()
+    const response = await fetch(endpoints.users + '/accept-invite', getFetchOptions('POST', undefined, { token }))
+    const accepted = await response.json()
+
+    assert.strictEqual(response.status, 200)
+    assert.strictEqual(accepted.organizationId, globexId)
+    assert.strictEqual(accepted.id, user.id)
+  })
+})
+
+await test('Authorization', async () => {
+  afterEach(() => server.reset())
+
+  await it("returns 403 when the caller's role lacks the permission", async () => {
+    const options = getFetchOptions('PATCH', keys.viewer, { first: 'Max' })
+    const response = await fetch(endpoints.users + '/' + userId, options)
+
+    assert.strictEqual(response.status, 403)
+
+    const message = await response.json()
+    assert.strictEqual(message.message, 'Missing permission: users:write')
+  })
+
+  await it('only lets callers read what their role grants', async () => {
+    await fetch(
+      endpoints.roles + '/' + engineeringRoleId,
+      getFetchOptions('PATCH', keys.admin, { permissions: ['users:write'] })
+    )
+    const usersResponse = await fetch(endpoints.users, getFetchOptions('GET', keys.engineering))
+    const rolesResponse = await fetch(endpoints.roles, getFetchOptions('GET', keys.engineering))
+    const auditResponse = await fetch(endpoints.auditEvents, getFetchOptions('GET', keys.engineering))
+    const viewerResponse = await fetch(endpoints.auditEvents, getFetchOptions('GET', keys.viewer))
+
+    assert.strictEqual(usersResponse.status, 200)
+    assert.strictEqual(rolesResponse.status, 403)
+    assert.strictEqual(auditResponse.status, 403)
+    assert.strictEqual(viewerResponse.status, 200)
+
+    const message = await auditResponse.json()
+    assert.strictEqual(message.message, 'Missing permission: audit:read')
+  })
+
+  await it('only lets callers with users:delete delete users', async () => {
+    const engineeringResponse = await fetch(endpoints.users + '/' + userId, getFetchOptions('DELETE', keys.engineering))
+    const adminResponse = await fetch(endpoints.users + '/' + userId, getFetchOptions('DELETE', keys.admin))
+
+    assert.strictEqual(engineeringResponse.status, 403)
+    assert.strictEqual(adminResponse.status, 200)
+  })
+
+  await it('only lets admins change the default role', async () => {
+    // Let engineers edit roles, which also shows that permissions follow changes to the role
+    await fetch(
+      endpoints.roles + '/' + engineeringRoleId,
+      getFetchOptions('PATCH', keys.admin, { permissions: ['users:write', 'roles:write'] })
+    )
+    const renameResponse = await fetch(
+      endpoints.roles + '/' + engineeringRoleId,
+      getFetchOptions('PATCH', keys.engineering, { name: 'Platform' })
+    )
+    const defaultResponse = await fetch(
+      endpoints.roles + '/' + engineeringRoleId,
+      getFetchOptions('PATCH', keys.engineering, { isDefault: true })
+    )
+    const createResponse = await fetch(
+      endpoints.roles,
+      getFetchOptions('POST', keys.engineering, { name: 'Interns', isDefault: true })
+    )
+    const adminResponse = await fetch(
+      endpoints.roles + '/' + engineeringRoleId,
+      getFetchOptions('PATCH', keys.admin, { isDefault: true })
+    )
+
+    assert.strictEqual(renameResponse.status, 200)
+    assert.strictEqual(defaultResponse.status, 403)
+    assert.strictEqual(createResponse.status, 403)
+    assert.strictEqual(adminResponse.status, 200)
+
+    const message = await defaultResponse.json()
+    assert.strictEqual(message.message, 'Missing permission: admin')
+  })
+
+  await it('only lets admins grant admin or change roles that grant it', async () => {
+    await fetch(
+      endpoints.roles + '/' + engineeringRoleId,
+      getFetchOptions('PATCH', keys.admin, { permissions: ['roles:write', 'roles:delete'] })
+    )
+    const grantResponse = await fetch(
+      endpoints.roles + '/' + engineeringRoleId,
+      getFetchOptions('PATCH', keys.engineering, { permissions: ['admin'] })
+    )
+    const createResponse = await fetch(
+      endpoints.roles,
+      getFetchOptions('POST', keys.engineering, { name: 'Owners', permissions: ['admin'] })
+    )
+    const revokeResponse = await fetch(
+      endpoints.roles + '/' + adminRoleId,
+      getFetchOptions('PATCH', keys.engineering, { permissions: [] })
+    )
+    const deleteResponse = await fetch(endpoints.roles + '/' + adminRoleId, getFetchOptions('DELETE', keys.engineering))
+    const adminResponse = await fetch(
+      endpoints.roles + '/' + engineeringRoleId,
+      getFetchOptions('PATCH', keys.admin, { permissions: ['admin'] })
+    )
+
+    assert.strictEqual(grantResponse.status, 403)
+    assert.strictEqual(createResponse.status, 403)
+    assert.strictEqual(revokeResponse.status, 403)
+    assert.strictEqual(deleteResponse.status, 403)
+    assert.strictEqual(adminResponse.status, 200)
+
+    const message = await grantResponse.json()
+    assert.strictEqual(message.message, 'Missing permission: admin')
+  })
+
+  await it('only lets admins use the admin routes', async () => {
+    const anonymousResponse = await fetch(endpoints.admin + '/reset', getFetchOptions('POST'))
+    const engineeringResponse = await fetch(endpoints.admin + '/chaos', getFetchOptions('GET', keys.engineering))
+    const adminResponse = await fetch(endpoints.admin + '/chaos', getFetchOptions('GET', keys.admin))
+
+    assert.strictEqual(anonymousResponse.status, 401)
+    assert.strictEqual(engineeringResponse.status, 403)
+    assert.strictEqual(adminResponse.status, 200)
+  })
+
+  await it('records the caller as the actor of their changes', async () => {
+    const options = getFetchOptions('PATCH', keys.engineering, { first: 'Max' })
+    await fetch(endpoints.users + '/' + userId, {
+      ...options,
+      headers: { ...options.headers, 'x-actor': 'someone-else@example.com' },
+    })
+    const response = await fetch(endpoints.auditEvents + '?entityId=' + userId, getFetchOptions('GET', keys.viewer))
+    const { data } = await response.json()
+
+    assert.strictEqual(data[0].actor, 'Development engineer')
+  })
+
+  await it('only lets API keys into the organization of their role', async () => {
+    const acmeResponse = await fetch(
+      endpoints.organizations + '/' + acmeId + '/roles',
+      getFetchOptions('GET', keys.globex)
+    )
+    const ownResponse = await fetch(endpoints.roles + '?sort=name', getFetchOptions('GET', keys.globex))
+    const { data } = await ownResponse.json()
+
+    assert.strictEqual(acmeResponse.status, 403)
+    assert.deepStrictEqual(
+      data.map(({ name }: { name: string }) => name),
+      ['Admin', 'Member']
+    )
+
+    const message = await acmeResponse.json()
+    assert.strictEqual(message.message, 'API key belongs to another organization')
+  })
+
+  await it('needs an API key for organizations other than the default one', async () => {
+    for (const path of ['/users', '/roles', '/audit-events', '/events']) {
+      const response = await fetch(endpoints.organizations + '/' + globexId + path)
+
+      assert.strictEqual(response.status, 401)
+    }
+
+    const response = await fetch(
+      endpoints.organizations + '/' + globexId + '/users',
+      getFetchOptions('GET', keys.globex)
+    )
+
+    assert.strictEqual(response.status, 200)
+  })
+
+  await it('only shows callers their own organization', async () => {
+    const listResponse = await fetch(endpoints.organizations, getFetchOptions('GET', keys.globex))
+    const { data } = await listResponse.json()
+    const acmeResponse = await fetch(endpoints.organizations + '/' + acmeId, getFetchOptions('GET', keys.globex))
+    const anonymousResponse = await fetch(endpoints.organizations + '/' + globexId)
+
+    assert.deepStrictEqual(
+      data.map(({ name }: { name: string }) => name),
+      ['Globex']
+    )
+    assert.strictEqual(acmeResponse.status, 404)
+    assert.strictEqual(anonymousResponse.status, 404)
+  })
+
+  await it('only streams the changes of the organization of the API key', async () => {
+    const globex = createClient({ baseUrl: 'http://localhost:3009', apiKey: keys.globex })
+    const controller = new AbortController()
+    const events = globex.events.stream({}, { signal: controller.signal })
+    const next = events.next()
+
+    // The stream is only connected once the generator is first advanced
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    await fetch(endpoints.roles, getFetchOptions('POST', keys.admin, { name: 'Acme interns' }))
+    await globex.roles.create({ name: 'Globex interns' })
+    const { value } = await next
+    controller.abort()
+
+    assert.strictEqual(value?.type, 'role.created')
+    assert.strictEqual((value?.data as { name: string }).name, 'Globex interns')
+  })
+
+  await it('checks the API key of change streams', async () => {
+    const acmeResponse = await fetch(
+      endpoints.organizations + '/' + acmeId + '/events',
+      getFetchOptions('GET', keys.globex)
+    )
+    const invalidResponse = await fetch(endpoints.events, getFetchOptions('GET', 'not-a-key'))
+
+    assert.strictEqual(acmeResponse.status, 403)
+    assert.strictEqual(invalidResponse.status, 401)
+  })
+
+  await it('rejects change streams the server refuses', async () => {
+    const globex = createClient({ baseUrl: 'http://localhost:3009', apiKey: keys.globex, organizationId: acmeId })
+    const anonymous = createClient({ baseUrl: 'http://localhost:3009' })
+
+    await assert.rejects(globex.events.stream().next(), { status: 403, kind: 'wrongOrganization' })
+    await assert.rejects(anonymous.events.stream().next(), { status: 401, kind: 'authenticationRequired' })
+  })
+
+  await it('lets the client send an API key', async () => {
+    const viewer = createClient({ baseUrl: 'http://localhost:3009', apiKey: keys.viewer })
+    const engineer = createClient({ baseUrl: 'http://localhost:3009', apiKey: keys.engineering })
+
+    await assert.rejects(viewer.users.suspend(userId), { status: 403, kind: 'missingPermission' })
+    assert.strictEqual((await engineer.users.suspend(userId)).status, 'suspended')
+  })
+})
+
+server.stop()
@@ -0,0 +1,140 @@
+import { STATUS_CODES } from 'node:http'
+import type express from 'express'
+
+import type { ChaosProfile, FailureType } from './models'
+
+export interface NetworkEffects {
+  minLatency: number
+  maxLatency: number
+  errorRate: number
+  errorStatus: number
+  failure: FailureType
+}
+
+export interface FaultInjector {
+  list(): ChaosProfile[]
+  add(profile: ChaosProfile): ChaosProfile
+  remove(id: string): ChaosProfile | undefined
+  clear(): void
+  /** Layers the matching profile, then any override headers, on top of the server's default effects. */
+  getEffects(req: express.Request, defaults: NetworkEffects): NetworkEffects
+}
+
+export const overrideHeaders = {
+  latency: 'X-Chaos-Latency',
+  errorRate: 'X-Chaos-Error-Rate',
+  errorStatus: 'X-Chaos-Error-Status',
+  failure: 'X-Chaos-Failure',
+}
+
+function matchesPath(pattern: string, path: string) {
+  const patternSegments = pattern.split('/').filter(Boolean)
+  const pathSegments = path.split('/').filter(Boolean)
+  for (let i = 0; i < patternSegments.length; i++) {
+    if (patternSegments[i] === '*') {
+      return true
+    }
+
+    if (i >= pathSegments.length || (!patternSegments[i].startsWith(':') && patternSegments[i] !== pathSegments[i])) {
+      return false
+    }
+  }
+
+  return patternSegments.length === pathSegments.length
+}
+
+function matchesProfile(profile: ChaosProfile, req: express.Request) {
+  const methodMatches = !profile.method || profile.method === '*' || profile.method === req.method
+  // Routes served under an organization also match the profiles of the routes without one, so that `/users` covers
+  // `/organizations/:orgId/users` as well
+  const unscopedPath = req.path.replace(/^\/organizations\/[^/]+(?=\/)/, '')
+  const pathMatches = !profile.path || matchesPath(profile.path, req.path) || matchesPath(profile.path, unscopedPath)
+  return methodMatches && pathMatches
+}
+
+/** Reads the per-request override headers into profile fields, leaving out the ones that aren't set. */
+export function getOverrides(req: express.Request): Partial<ChaosProfile> {
+  const overrides: Partial<ChaosProfile> = {}
+  const latency = req.get(overrideHeaders.latency)
+  if (latency !== undefined) {
+    overrides.minLatency = Number(latency)
+    overrides.maxLatency = Number(latency)
+  }
+
+  const errorRate = req.get(overrideHeaders.errorRate)
+  if (errorRate !== undefined) {
+    overrides.errorRate = Number(errorRate)
+  }
+
+  const errorStatus = req.get(overrideHeaders.errorStatus)
+  if (errorStatus !== undefined) {
+    overrides.errorStatus = Number(errorStatus)
+  }
+
+  const failure = req.get(overrideHeaders.failure)
+  if (failure !== undefined) {
+    overrides.failure = failure as FailureType
+  }
+
+  // Asking for a specific failure without a rate means it should always happen
+  if ((overrides.failure || overrides.errorStatus) && overrides.errorRate === undefined) {
+    overrides.errorRate = 1
+  }
+
+  return overrides
+}
+
+export function sendFailure(res: express.Response, effects: NetworkEffects) {
+  switch (effects.failure) {
+    case 'timeout':
+      // Never respond, leaving the client to give up on its own
+      return
+    case 'drop':
+      res.socket?.destroy()
+      return
+    case 'malformed':
+      res.status(200).type('json').send('{"data": [{"id": ')
+      return
+    default:
+      if (effects.errorStatus === 429 || effects.errorStatus === 503) {
+        res.set('Retry-After', '1')
+      }
+      res.status(effects.errorStatus).json({ message: STATUS_CODES[effects.errorStatus] ?? 'Server Error' })
+  }
+}
+
+export function createFaultInjector(): FaultInjector {
+  let profiles: ChaosProfile[] = []
+
+  return {
+    list() {
+      return profiles.map((profile) => ({ ...profile }))
+    },
+    add(profile) {
+      profiles.push({ ...profile })
+      return { ...profile }
+    },
+    remove(id) {
+      const profile = profiles.find((profile) => profile.id === id)
+      profiles = profiles.filter((profile) => profile.id !== id)
+      return profile
+    },
+    clear() {
+      profiles = []
+    },
+    getEffects(req, defaults) {
+      // The most recently added profile wins, so a narrow rule can be layered over a broad one
+      const profile = [...profiles].reverse().find((profile) => matchesProfile(profile, req))
+      const effects = { ...defaults }
+      for (const layer of [profile ?? {}, getOverrides(req)]) {
+        for (const [key, value] of Object.entries(layer)) {
+          if (key in effects && value !== undefined) {
+            ;(effects as Record<string, unknown>)[key] = value
+          }
+        }
+      }
+
+      return effects
+    },
+  }
+}
@@ -0,0 +1,298 @@
+import { test, it, afterEach } from 'node:test'
+import assert from 'node:assert'
+import { startServer } from './api'
+import { testConfig } from './test-config'
+import {
+  ApiError,
+  BulkOperationError,
+  ImportFailedError,
+  NetworkError,
+  PreconditionFailedError,
+  ValidationError,
+  createClient,
+  getETag,
+} from './client'
+
+const config = { ...testConfig, port: 3007 }
+
+const baseUrl = 'http://localhost:3007'
+const userId = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+
+/** Counts requests, and makes the first `failures` of them fail the way the given chaos headers ask. */
+function createFlakyFetch(failures: number, headers: Record<string, string>) {
+  const calls: string[] = []
+  const flakyFetch = (url: string | URL | Request, init: RequestInit = {}) => {
+    calls.push(`${init.method} ${url}`)
+    const chaos = calls.length <= failures ? headers : {}
+    return fetch(url, { ...init, headers: { ...(init.headers as Record<string, string>), ...chaos } })
+  }
+
+  return { calls, fetch: flakyFetch as typeof fetch }
+}
+
+const server = await startServer(config)
+
+await test('Client', async () => {
+  await test('requests', async () => {
+    afterEach(() => server.reset())
+
+    await it('lists users with query parameters', async () => {
+      const client = createClient({ baseUrl })
+      const users = await client.users.list({ search: 'mark', expand: ['role'], sort: 'first', limit: 5 })
+
+      assert.ok(users.data.length > 0)
+      assert.ok(users.data.every((user) => user.role?.id === user.roleId))
+      assert.ok(users.total >= users.data.length)
+    })
+
+    await it('sends list parameters as comma-separated values', async () => {
+      const client = createClient({ baseUrl })
+      const { data } = await client.users.list({ status: ['active', 'invited'], includeDeleted: false })
+
+      assert.ok(data.every((user) => user.status === 'active'))
+    })
+
+    await it('creates, updates and deletes users', async () => {
+      const client = createClient({ baseUrl })
+      const { data: roles } = await client.roles.list()
+      const user = await client.users.create({
+        first: 'Ada',
+        last: 'Lovelace',
+        email: 'ada@example.com',
+        roleId: roles[0].id,
+      })
+      const updated = await client.users.update(user.id, { first: 'Augusta' })
+      const deleted = await client.users.delete(user.id)
+
+      assert.strictEqual(updated.first, 'Augusta')
+      assert.ok(deleted.deletedAt)
+    })
+
+    await it('exports and imports CSV', async () => {
+      const client = createClient({ baseUrl })
+      const csv = await client.users.export({ search: 'mark' })
+      const result = await client.users.import(csv, { dryRun: true })
+
+      assert.match(csv, /^id,first,last,email/)
+      assert.strictEqual(result.dryRun, true)
+      assert.strictEqual(result.failed, 0)
+    })
+
+    await it('scopes requests to the organization', async () => {
+      const { data: organizations } = await createClient({ baseUrl }).organizations.list({ sort: 'name' })
+      const globex = createClient({ baseUrl, organizationId: organizations[1].id })
+      const { data: roles } = await globex.roles.list({ sort: 'name' })
+
+      assert.strictEqual(organizations[1].name, 'Globex')
+      assert.deepStrictEqual(
+        roles.map(({ name }) => name),
+        ['Admin', 'Member']
+      )
+      await assert.rejects(globex.users.get(userId), { kind: 'userNotFound' })
+      assert.strictEqual((await globex.roles.users(roles[0].id)).total, 0)
+    })
+
+    await it('streams changes', async () => {
+      const client = createClient({ baseUrl })
+      const controller = new AbortController()
+      const events = client.events.stream({}, { signal: controller.signal })
+      const next = events.next()
+
+      // The stream is only connected once the generator is first advanced
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      await client.users.update(userId, { first: 'Max' })
+      const { value } = await next
+      controller.abort()
+
+      assert.strictEqual(value?.type, 'user.updated')
+      assert.strictEqual(value?.data.id, userId)
+    })
+  })
+
+  await test('errors', async () => {
+    afterEach(() => server.reset())
+
+    await it('names the failure', async () => {
+      const client = createClient({ baseUrl })
+
+      await assert.rejects(client.users.get('not-a-user'), (error) => {
+        assert.ok(error instanceof ApiError)
+        assert.strictEqual(error.status, 404)
+        assert.strictEqual(error.kind, 'userNotFound')
+        return true
+      })
+      await assert.rejects(client.users.list({ sort: 'nope' as 'first' }), { kind: 'invalidSortField' })
+      await assert.rejects(client.roles.create({ name: '' }), { kind: 'validationFailed' })
+    })
+
+    await it('returns the field errors of invalid requests', async () => {
+      const client = createClient({ baseUrl })
+
+      await assert.rejects(client.users.update(userId, { email: 'nope' }), (error) => {
+        assert.ok(error instanceof ValidationError)
+        assert.deepStrictEqual(error.errors, [{ field: 'email', message: 'must be a valid email address' }])
+        return true
+      })
+    })
+
+    await it('returns the current entity when a precondition fails', async () => {
+      const client = createClient({ baseUrl })
+      const user = await client.users.get(userId)
+      const ifMatch = getETag(user)
+      await client.users.update(userId, { first: 'Max' }, { ifMatch })
+
+      await assert.rejects(client.users.update(userId, { first: 'Maxine' }, { ifMatch }), (error) => {
+        assert.ok(error instanceof PreconditionFailedError)
+        assert.strictEqual(error.current.first, 'Max')
+        assert.ok(getETag(error.current))
+        assert.notStrictEqual(getETag(error.current), ifMatch)
+        return true
+      })
+    })
+
+    await it('returns the results of refused bulk operations and imports', async () => {
+      const client = createClient({ baseUrl })
+
+      await assert.rejects(client.users.bulkDelete({ ids: [userId, 'not-a-user'] }), (error) => {
+        assert.ok(error instanceof BulkOperationError)
+        assert.deepStrictEqual(
+          error.results.map(({ status }) => status),
+          [424, 404]
+        )
+        return true
+      })
+      await assert.rejects(client.users.import('first,last,email,role\nAda,,ada@example.com,Nope\n'), (error) => {
+        assert.ok(error instanceof ImportFailedError)
+        assert.strictEqual(error.result.failed, 1)
+        return true
+      })
+    })
+  })
+
+  await test('retries', async () => {
+    afterEach(() => server.reset())
+
+    await it('retries idempotent requests that fail', async () => {
+      const { calls, fetch } = createFlakyFetch(2, { 'x-chaos-error-rate': '1' })
+      const client = createClient({ baseUrl, fetch, retryDelay: 1 })
+      const user = await client.users.get(userId)
+
+      assert.strictEqual(user.id, userId)
+      assert.strictEqual(calls.length, 3)
+    })
+
+    await it('retries dropped connections', async () => {
+      const { calls, fetch } = createFlakyFetch(1, { 'x-chaos-error-rate': '1', 'x-chaos-failure': 'drop' })
+      const client = createClient({ baseUrl, fetch, retryDelay: 1 })
+      await client.roles.list()
+
+      assert.strictEqual(calls.length, 2)
+    })
+
+    await it('gives up after the configured number of retries', async () => {
+      const { calls, fetch } = createFlakyFetch(10, { 'x-chaos-error-rate': '1', 'x-chaos-error-status': '503' })
+      const client = createClient({ baseUrl, fetch, retries: 1, retryDelay: 1, maxRetryDelay: 1 })
+
+      await assert.rejects(client.users.list(), { status: 503, kind: 'unknown' })
+      assert.strictEqual(calls.length, 2)
+    })
+
+    await it('does not retry requests that are not idempotent', async () => {
+      const { calls, fetch } = createFlakyFetch(1, { 'x-chaos-error-rate': '1' })
+      const client = createClient({ baseUrl, fetch, retryDelay: 1 })
+
+      await assert.rejects(client.users.suspend(userId), { status: 500 })
+      assert.strictEqual(calls.length, 1)
+    })
+
+    await it('retries changes sent with an idempotency key', async () => {
+      const { calls, fetch } = createFlakyFetch(1, { 'x-chaos-error-rate': '1' })
+      const client = createClient({ baseUrl, fetch, retryDelay: 1 })
+      const user = { first: 'Ada', last: 'Lovelace', email: 'ada@example.com' }
+      const created = await client.users.invite(user, { idempotencyKey: 'invite-ada' })
+      const replayed = await createClient({ baseUrl }).users.invite(user, { idempotencyKey: 'invite-ada' })
+
+      assert.strictEqual(calls.length, 2)
+      assert.deepStrictEqual(replayed, created)
+      await assert.rejects(client.users.invite({ ...user, first: 'Augusta' }, { idempotencyKey: 'invite-ada' }), {
+        status: 422,
+        kind: 'idempotencyKeyReused',
+      })
+    })
+
+    await it('does not retry client errors', async () => {
+      const { calls, fetch } = createFlakyFetch(0, {})
+      const client = createClient({ baseUrl, fetch, retryDelay: 1 })
+
+      await assert.rejects(client.users.get('not-a-user'), { status: 404 })
+      assert.strictEqual(calls.length, 1)
+    })
+
+    await it('reports malformed responses as network errors', async () => {
+      const { fetch } = createFlakyFetch(10, { 'x-chaos-error-rate': '1', 'x-chaos-failure': 'malformed' })
+      const client = createClient({ baseUrl, fetch, retries: 0 })
+
+      await assert.rejects(client.users.list(), NetworkError)
+    })
+  })
+
+  await test('cancellation', async () => {
+    afterEach(() => server.reset())
+
+    await it('rejects when the signal aborts', async () => {
+      const client = createClient({ baseUrl })
+      const controller = new AbortController()
+      const request = client.users.list({}, { signal: controller.signal })
+      controller.abort()
+
+      await assert.rejects(request, { name: 'AbortError' })
+    })
+
+    await it('stops waiting to retry when the signal aborts', async () => {
+      const { calls, fetch } = createFlakyFetch(10, { 'x-chaos-error-rate': '1' })
+      const client = createClient({ baseUrl, fetch, retryDelay: 60000, maxRetryDelay: 60000 })
+
+      await assert.rejects(client.users.list({}, { signal: AbortSignal.timeout(100) }), { name: 'TimeoutError' })
+      assert.strictEqual(calls.length, 1)
+    })
+  })
+
+  await test('deduplication', async () => {
+    afterEach(() => server.reset())
+
+    await it('shares identical GETs while they are in flight', async () => {
+      const { calls, fetch } = createFlakyFetch(0, {})
+      const client = createClient({ baseUrl, fetch })
+      const [first, second] = await Promise.all([client.users.get(userId), client.users.get(userId)])
+      await client.users.get(userId)
+
+      assert.strictEqual(calls.length, 2)
+      assert.deepStrictEqual(first, second)
+      assert.notStrictEqual(first, second)
+      assert.ok(getETag(first))
+      assert.strictEqual(getETag(first), getETag(second))
+    })
+
+    await it('does not share requests that differ', async () => {
+      const { calls, fetch } = createFlakyFetch(0, {})
+      const client = createClient({ baseUrl, fetch })
+      await Promise.all([client.users.list({ page: 1 }), client.users.list({ page: 2 })])
+      await Promise.all([client.users.delete(userId), client.users.delete(userId).catch(() => {})])
+
+      assert.strictEqual(calls.length, 4)
+    })
+
+    await it('keeps a shared request going until every caller has aborted', async () => {
+      const client = createClient({ baseUrl })
+      const controller = new AbortController()
+      const aborted = client.users.list({}, { signal: controller.signal })
+      const kept = client.users.list()
+      controller.abort()
+
+      await assert.rejects(aborted, { name: 'AbortError' })
+      assert.strictEqual((await kept).data.length, config.pageSize)
+    })
+  })
+})
+
+server.stop()
@@ -0,0 +1,697 @@
+import type {
+  AuditEvent,
+  BulkResult,
+  BulkResultItem,
+  ChangeEvent,
+  ChaosProfile,
+  ImportResult,
+  Organization,
+  PagedData,
+  Permission,
+  Role,
+  Snapshot,
+  User,
+  UserStatus,
+} from './models'
+import type { MatchMode } from './search'
+
+export interface ClientOptions {
+  /** Where the API is served, such as `http://localhost:3002`. */
+  baseUrl: string
+  /** Sent with every request, such as `X-Actor`. */
+  headers?: Record<string, string>
+  /** Sent as a bearer token with every request, to act with the permissions of the key's role. */
+  apiKey?: string
+  /**
+   * Where users, roles, audit events and changes are read and written. Without one, the server uses the
+   * organization of the API key, or its default organization.
+   */
+  organizationId?: string
+  /** How many times to retry an idempotent request that failed with a network error or a retryable status. */
+  retries?: number
+  /** Delay before the first retry, doubling for each retry after it. */
+  retryDelay?: number
+  /** Upper bound on the delay between retries, including delays asked for with `Retry-After`. */
+  maxRetryDelay?: number
+  fetch?: typeof fetch
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal
+  headers?: Record<string, string>
+  /** Only apply the change if the entity still has this ETag, as returned by `getETag`. */
+  ifMatch?: string
+  /**
+   * Lets the server recognize a repeated create or bulk request, and answer it with the response to the first one
+   * instead of applying it again. Requests with a key are retried like idempotent ones.
+   */
+  idempotencyKey?: string
+  retries?: number
+}
+
+export interface ListParams<S extends string> {
+  page?: number
+  limit?: number
+  cursor?: string
+  sort?: S | 'relevance'
+  order?: 'asc' | 'desc'
+  search?: string
+  match?: MatchMode
+  highlight?: boolean
+}
+
+export type OrganizationListParams = ListParams<'name' | 'createdAt' | 'updatedAt'>
+
+export interface UserListParams extends ListParams<'first' | 'last' | 'role' | 'createdAt' | 'updatedAt'> {
+  roleId?: string | string[]
+  status?: UserStatus | UserStatus[]
+  expand?: 'role'[]
+  includeDeleted?: boolean
+}
+
+export interface RoleListParams extends ListParams<'name' | 'description' | 'isDefault' | 'createdAt' | 'updatedAt'> {
+  includeDeleted?: boolean
+}
+
+export interface AuditEventListParams extends ListParams<'entityType' | 'action' | 'createdAt'> {
+  entityType?: AuditEvent['entityType'] | AuditEvent['entityType'][]
+  entityId?: string | string[]
+  action?: AuditEvent['action'] | AuditEvent['action'][]
+  since?: string
+  until?: string
+}
+
+export type CreateUser = Pick<User, 'first' | 'last' | 'email' | 'roleId'>
+export type UpdateUser = Partial<CreateUser>
+export type InviteUser = Pick<User, 'first' | 'last' | 'email'> & { roleId?: string }
+export type CreateRole = Pick<Role, 'name'> & Partial<Pick<Role, 'description' | 'isDefault' | 'permissions'>>
+export type UpdateRole = Partial<CreateRole>
+
+export interface InviteResult {
+  token: string
+  user: User
+}
+
+export type StreamEvent = ChangeEvent | { id: number; type: 'resync'; data: Record<string, never> }
+
+export interface FieldError {
+  field: string
+  message: string
+}
+
+export interface ErrorBody {
+  message: string
+  [key: string]: unknown
+}
+
+// ------------
+// Typed Errors
+// ------------
+
+// Messages the server fails with, so that callers can tell failures apart without matching on text
+const errorKinds = {
+  invalidCursor: /^Invalid cursor$/,
+  invalidSortField: /^Invalid sort field: /,
+  invalidSortOrder: /^Invalid sort order: /,
+  invalidMatchMode: /^Invalid match mode: /,
+  invalidExpandField: /^Invalid expand field: /,
+  invalidStatus: /^Invalid status: /,
+  invalidDate: /^Invalid date: /,
+  invalidChaosOverrides: /^Invalid chaos override headers$/,
+  invalidCsv: /^Invalid CSV: /,
+  expectedCsv: /^Expected a text\/csv body$/,
+  missingFields: /^Missing required fields?: /,
+  missingColumns: /^Missing required columns?: /,
+  validationFailed: /^Validation failed$/,
+  preconditionFailed: /^Precondition failed$/,
+  noChangesApplied: /^No changes were applied$/,
+  userNotFound: /^User not found$/,
+  roleNotFound: /^Role not found$/,
+  referencedRoleNotFound: /^Referenced role not found$/,
+  invitationNotFound: /^Invitation not found$/,
+  snapshotNotFound: /^Snapshot not found$/,
+  chaosProfileNotFound: /^Chaos profile not found$/,
+  emailTaken: /^User with given email already exists$/,
+  roleNameTaken: /^Role with given name already exists$/,
+  userNotDeleted: /^User is not deleted$/,
+  roleNotDeleted: /^Role is not deleted$/,
+  userNotActive: /^User is not active$/,
+  userNotSuspended: /^User is not suspended$/,
+  cannotUnsetDefaultRole: /^Cannot unset default role$/,
+  cannotDeleteDefaultRole: /^Cannot delete default role$/,
+  adminRoutesDisabled: /^Admin routes are disabled$/,
+  rateLimitExceeded: /^Rate limit exceeded$/,
+  authenticationRequired: /^Authentication required$/,
+  invalidApiKey: /^Invalid API key$/,
+  missingPermission: /^Missing permission: /,
+  organizationNotFound: /^Organization not found$/,
+  invalidIdempotencyKey: /^Invalid idempotency key$/,
+  idempotencyKeyReused: /^Idempotency key was used for a different request$/,
+  idempotencyKeyInProgress: /^A request with this idempotency key is in progress$/,
+  wrongOrganization: /^API key belongs to another organization$/,
+}
+
+export type ApiErrorKind = keyof typeof errorKinds | 'unknown'
+
+function getErrorKind(message: string): ApiErrorKind {
+  const kind = Object.keys(errorKinds).find((kind) => errorKinds[kind as keyof typeof errorKinds].test(message))
+  return (kind as ApiErrorKind | undefined) ?? 'unknown'
+}
+
+/** The server answered with an error status. `kind` names the failure, or is `unknown` for simulated errors. */
+export class ApiError extends Error {
+  readonly status: number
+  readonly kind: ApiErrorKind
+  readonly body: ErrorBody
+
+  constructor(status: number, body: ErrorBody) {
+    super(body.message)
+    this.name = 'ApiError'
+    this.status = status
+    this.kind = getErrorKind(body.message)
+    this.body = body
+  }
+}
+
+/** The request body had invalid fields. */
+export class ValidationError extends ApiError {
+  readonly errors: FieldError[]
+
+  constructor(status: number, body: ErrorBody & { errors: FieldError[] }) {
+    super(status, body)
+    this.name = 'ValidationError'
+    this.errors = body.errors
+  }
+}
+
+/** The entity changed since the ETag given in `ifMatch`. `current` is the entity as it is now. */
+export class PreconditionFailedError<T extends User | Role = User | Role> extends ApiError {
+  readonly current: T
+
+  constructor(status: number, body: ErrorBody & { data: T }, etag: string | null) {
+    super(status, body)
+    this.name = 'PreconditionFailedError'
+    this.current = withETag(body.data, etag)
+  }
+}
+
+/** A bulk operation was refused because some of its items could not be applied. */
+export class BulkOperationError extends ApiError {
+  readonly results: BulkResultItem<User>[]
+
+  constructor(status: number, body: ErrorBody & BulkResult<User>) {
+    super(status, body)
+    this.name = 'BulkOperationError'
+    this.results = body.results
+  }
+}
+
+/** An import was refused because some of its rows were invalid. `result` reports the errors for each row. */
+export class ImportFailedError extends ApiError {
+  readonly result: ImportResult
+
+  constructor(status: number, body: ErrorBody & ImportResult) {
+    super(status, body)
+    this.name = 'ImportFailedError'
+    this.result = body
+  }
+}
+
+/** No usable response arrived, because the connection failed or the body could not be parsed. */
+export class NetworkError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options)
+    this.name = 'NetworkError'
+  }
+}
+
+function isErrorBody(body: unknown): body is ErrorBody {
+  return typeof body === 'object' && body !== null && typeof (body as ErrorBody).message === 'string'
+}
+
+function createError(response: RawResponse): ApiError {
+  const { status, body } = response
+  if (!isErrorBody(body)) {
+    return new ApiError(status, { message: `Request failed with status ${status}` })
+  }
+
+  if (Array.isArray(body.errors)) {
+    return new ValidationError(status, body as ErrorBody & { errors: FieldError[] })
+  }
+
+  if (status === 412 && body.data) {
+    return new PreconditionFailedError(status, body as ErrorBody & { data: User }, response.headers.get('ETag'))
+  }
+
+  if (Array.isArray(body.results)) {
+    return new BulkOperationError(status, body as ErrorBody & BulkResult<User>)
+  }
+
+  if (Array.isArray(body.rows)) {
+    return new ImportFailedError(status, body as ErrorBody & ImportResult)
+  }
+
+  return new ApiError(status, body)
+}
+
+function parseResponse(response: Response, text: string, request: string): RawResponse {
+  if (!response.headers.get('Content-Type')?.includes('json')) {
+    return { status: response.status, headers: response.headers, body: text }
+  }
+
+  try {
+    return { status: response.status, headers: response.headers, body: JSON.parse(text) }
+  } catch (error) {
+    throw new NetworkError(`${request} returned malformed JSON`, { cause: error })
+  }
+}
+
+// -----
+// ETags
+// -----
+
+const etags = new WeakMap<object, string>()
+
+function withETag<T>(entity: T, etag: string | null): T {
+  if (etag && typeof entity === 'object' && entity !== null) {
+    etags.set(entity, etag)
+  }
+
+  return entity
+}
+
+/** The ETag an entity was returned with, for use as `ifMatch` when changing it. */
+export function getETag(entity: User | Role): string | undefined {
+  return etags.get(entity)
+}
+
+// --------
+// Requests
+// --------
+
+interface RawResponse {
+  status: number
+  headers: Headers
+  body: unknown
+}
+
+type QueryValue = string | number | boolean | string[] | undefined
+
+interface RequestSpec {
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE'
+  path: string
+  query?: Record<string, QueryValue>
+  json?: unknown
+  csv?: string
+}
+
+// Safe to repeat, so they can be retried without risking a change being applied twice
+const idempotentMethods = ['GET', 'DELETE']
+
+const retryableStatuses = [408, 429, 500, 502, 503, 504]
+
+function canRetry(init: RequestInit, status?: number) {
+  // The server answers a repeated idempotency key with the first response, so those requests are safe to repeat too.
+  // Throttled requests are turned away before they are handled, so any of them can be tried again.
+  const headers = init.headers as Record<string, string> | undefined
+  return idempotentMethods.includes(init.method as string) || !!headers?.['Idempotency-Key'] || status === 429
+}
+
+function getRetryAfter(headers: Headers): number | undefined {
+  const value = headers.get('Retry-After')
+  if (!value) {
+    return undefined
+  }
+
+  const seconds = Number(value)
+  return Number.isNaN(seconds) ? Math.max(0, Date.parse(value) - Date.now()) : seconds * 1000
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const abort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', abort, { once: true })
+  })
+}
+
+/** Settles with the promise, or rejects as soon as the signal aborts. */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined, onAbort: () => void): Promise<T> {
+  if (!signal) {
+    return promise
+  }
+
+  if (signal.aborted) {
+    onAbort()
+    return Promise.reject(signal.reason)
+  }
+
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      onAbort()
+      reject(signal.reason)
+    }
+    signal.addEventListener('abort', abort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort))
+  })
+}
+
+function buildQuery(query: Record<string, QueryValue> = {}): string {
+  const params = new URLSearchParams()
+  for (const [name, value] of Object.entries(query)) {
+    // Flags are only sent when set, since the server treats any value other than "true" as false
+    if (value === undefined || value === false || (Array.isArray(value) && !value.length)) {
+      continue
+    }
+
+    params.set(name, Array.isArray(value) ? value.join(',') : String(value))
+  }
+
+  const search = params.toString()
+  return search ? `?${search}` : ''
+}
+
+export function createClient(clientOptions: ClientOptions) {
+  const {
+    baseUrl,
+    headers = {},
+    apiKey,
+    organizationId,
+    retries: defaultRetries = 2,
+    retryDelay = 200,
+    maxRetryDelay = 5000,
+    fetch: fetchImpl = globalThis.fetch,
+  } = clientOptions
+  const defaultHeaders: Record<string, string> = apiKey ? { ...headers, authorization: `Bearer ${apiKey}` } : headers
+  const inFlight = new Map<string, { promise: Promise<RawResponse>; controller: AbortController; waiting: number }>()
+
+  async function fetchOnce(url: string, init: RequestInit): Promise<RawResponse> {
+    let response: Response
+    let text: string
+    try {
+      response = await fetchImpl(url, init)
+      text = await response.text()
+    } catch (error) {
+      if (init.signal?.aborted) {
+        throw init.signal.reason
+      }
+
+      throw new NetworkError(`${init.method} ${url} failed`, { cause: error })
+    }
+
+    return parseResponse(response, text, `${init.method} ${url}`)
+  }
+
+  async function fetchWithRetries(url: string, init: RequestInit, retries: number): Promise<RawResponse> {
+    for (let attempt = 0; ; attempt++) {
+      let response: RawResponse | undefined
+      try {
+        response = await fetchOnce(url, init)
+      } catch (error) {
+        if (!(error instanceof NetworkError) || !canRetry(init) || attempt >= retries) {
+          throw error
+        }
+      }
+
+      if (response) {
+        const { status } = response
+        if (!retryableStatuses.includes(status) || !canRetry(init, status) || attempt >= retries) {
+          return response
+        }
+      }
+
+      const retryAfter = response && getRetryAfter(response.headers)
+      await sleep(Math.min(retryAfter ?? retryDelay * 2 ** attempt, maxRetryDelay), init.signal ?? undefined)
+    }
+  }
+
+  /** Shares one request between identical GETs while it is in flight, only cancelling it once every caller has. */
+  function fetchShared(url: string, init: RequestInit, retries: number, signal?: AbortSignal): Promise<RawResponse> {
+    const key = `${url} ${JSON.stringify(init.headers)}`
+    let entry = inFlight.get(key)
+    if (!entry) {
+      const controller = new AbortController()
+      const promise = fetchWithRetries(url, { ...init, signal: controller.signal }, retries).finally(() => {
+        if (inFlight.get(key) === entry) {
+          inFlight.delete(key)
+        }
+      })
+      entry = { promise, controller, waiting: 0 }
+      inFlight.set(key, entry)
+    }
+
+    const shared = entry
+    shared.waiting++
+    const response = abortable(shared.promise, signal, () => {
+      if (--shared.waiting === 0) {
+        shared.controller.abort()
+      }
+    })
+
+    // Each caller gets its own copy of the body, so changing one result can't affect another
+    return response.then((response) => ({ ...response, body: structuredClone(response.body) }))
+  }
+
+  async function request<T>(spec: RequestSpec, options: RequestOptions = {}): Promise<T> {
+    const url = `${baseUrl.replace(/\/$/, '')}${spec.path}${buildQuery(spec.query)}`
+    const headers: Record<string, string> = { ...defaultHeaders, ...options.headers }
+    let body: string | undefined
+    if (spec.json !== undefined) {
+      headers['Content-Type'] = 'application/json'
+      body = JSON.stringify(spec.json)
+    } else if (spec.csv !== undefined) {
+      headers['Content-Type'] = 'text/csv'
+      body = spec.csv
+    }
+    if (options.ifMatch) {
+      headers['If-Match'] = options.ifMatch
+    }
+    if (options.idempotencyKey) {
+      headers['Idempotency-Key'] = options.idempotencyKey
+    }
+
+    const init = { method: spec.method, headers, body }
+    const retries = options.retries ?? defaultRetries
+    const response =
+      spec.method === 'GET'
+        ? await fetchShared(url, init, retries, options.signal)
+        : await fetchWithRetries(url, { ...init, signal: options.signal }, retries)
+
+    if (response.status >= 400) {
+      throw createError(response)
+    }
+
+    return withETag(response.body as T, response.headers.get('ETag'))
+  }
+
+  const encode = encodeURIComponent
+  const scope = organizationId ? `/organizations/${encode(organizationId)}` : ''
+
+  return {
+    organizations: {
+      list(params: OrganizationListParams = {}, options?: RequestOptions) {
+        return request<PagedData<Organization>>(
+          { method: 'GET', path: '/organizations', query: { ...params } },
+          options
+        )
+      },
+      get(id: string, options?: RequestOptions) {
+        return request<Organization>({ method: 'GET', path: `/organizations/${encode(id)}` }, options)
+      },
+    },
+    users: {
+      list(params: UserListParams = {}, options?: RequestOptions) {
+        return request<PagedData<User>>({ method: 'GET', path: `${scope}/users`, query: { ...params } }, options)
+      },
+      get(id: string, params: Pick<UserListParams, 'expand' | 'includeDeleted'> = {}, options?: RequestOptions) {
+        return request<User>({ method: 'GET', path: `${scope}/users/${encode(id)}`, query: { ...params } }, options)
+      },
+      permissions(id: string, options?: RequestOptions) {
+        return request<string[]>({ method: 'GET', path: `${scope}/users/${encode(id)}/permissions` }, options)
+      },
+      create(fields: CreateUser, options?: RequestOptions) {
+        return request<User>({ method: 'POST', path: `${scope}/users`, json: fields }, options)
+      },
+      update(id: string, fields: UpdateUser, options?: RequestOptions) {
+        return request<User>({ method: 'PATCH', path: `${scope}/users/${encode(id)}`, json: fields }, options)
+      },
+      delete(id: string, options?: RequestOptions) {
+        return request<User>({ method: 'DELETE', path: `${scope}/users/${encode(id)}` }, options)
+      },
+      restore(id: string, options?: RequestOptions) {
+        return request<User>({ method: 'POST', path: `${scope}/users/${encode(id)}/restore` }, options)
+      },
+      invite(fields: InviteUser, options?: RequestOptions) {
+        return request<InviteResult>({ method: 'POST', path: `${scope}/users/invite`, json: fields }, options)
+      },
+      acceptInvite(token: string, options?: RequestOptions) {
+        return request<User>({ method: 'POST', path: `${scope}/users/accept-invite`, json: { token } }, options)
+      },
+      suspend(id: string, options?: RequestOptions) {
+        return request<User>({ method: 'POST', path: `${scope}/users/${encode(id)}/suspend` }, options)
+      },
+      reactivate(id: string, options?: RequestOptions) {
+        return request<User>({ method: 'POST', path: `${scope}/users/${encode(id)}/reactivate` }, options)
+      },
+      bulkDelete(body: { ids: string[]; atomic?: boolean }, options?: RequestOptions) {
+        return request<BulkResult<User>>({ method: 'POST', path: `${scope}/users/bulk-delete`, json: body }, options)
+      },
+      bulkAssignRole(body: { ids: string[]; roleId: string; atomic?: boolean }, options?: RequestOptions) {
+        return request<BulkResult<User>>(
+          { method: 'POST', path: `${scope}/users/bulk-assign-role`, json: body },
+          options
+        )
+      },
+      export(
+        params: Omit<UserListParams, 'page' | 'limit' | 'cursor' | 'highlight' | 'expand'> = {},
+        options?: RequestOptions
+      ) {
+        return request<string>({ method: 'GET', path: `${scope}/users/export`, query: { ...params } }, options)
+      },
+      import(csv: string, params: { dryRun?: boolean } = {}, options?: RequestOptions) {
+        return request<ImportResult>({ method: 'POST', path: `${scope}/users/import`, query: params, csv }, options)
+      },
+    },
+    roles: {
+      list(params: RoleListParams = {}, options?: RequestOptions) {
+        return request<PagedData<Role>>({ method: 'GET', path: `${scope}/roles`, query: { ...params } }, options)
+      },
+      get(id: string, params: Pick<RoleListParams, 'includeDeleted'> = {}, options?: RequestOptions) {
+        return request<Role>({ method: 'GET', path: `${scope}/roles/${encode(id)}`, query: params }, options)
+      },
+      users(id: string, params: Omit<UserListParams, 'roleId'> = {}, options?: RequestOptions) {
+        const path = `${scope}/roles/${encode(id)}/users`
+        return request<PagedData<User>>({ method: 'GET', path, query: { ...params } }, options)
+      },
+      create(fields: CreateRole, options?: RequestOptions) {
+        return request<Role>({ method: 'POST', path: `${scope}/roles`, json: fields }, options)
+      },
+      update(id: string, fields: UpdateRole, options?: RequestOptions) {
+        return request<Role>({ method: 'PATCH', path: `${scope}/roles/${encode(id)}`, json: fields }, options)
+      },
+      delete(id: string, options?: RequestOptions) {
+        return request<Role>({ method: 'DELETE', path: `${scope}/roles/${encode(id)}` }, options)
+      },
+      restore(id: string, options?: RequestOptions) {
+        return request<Role>({ method: 'POST', path: `${scope}/roles/${encode(id)}/restore` }, options)
+      },
+      export(params: Omit<RoleListParams, 'page' | 'limit' | 'cursor' | 'highlight'> = {}, options?: RequestOptions) {
+        return request<string>({ method: 'GET', path: `${scope}/roles/export`, query: { ...params } }, options)
+      },
+    },
+    permissions: {
+      list(options?: RequestOptions) {
+        return request<Permission[]>({ method: 'GET', path: '/permissions' }, options)
+      },
+    },
+    auditEvents: {
+      list(params: AuditEventListParams = {}, options?: RequestOptions) {
+        return request<PagedData<AuditEvent>>(
+          { method: 'GET', path: `${scope}/audit-events`, query: { ...params } },
+          options
+        )
+      },
+    },
+    events: {
+      /** Yields changes as they happen, starting after `lastEventId` when given, until the signal aborts. */
+      async *stream(params: { lastEventId?: number } = {}, options: RequestOptions = {}): AsyncGenerator<StreamEvent> {
+        const headers: Record<string, string> = { ...defaultHeaders, ...options.headers }
+        if (params.lastEventId !== undefined) {
+          headers['Last-Event-ID'] = String(params.lastEventId)
+        }
+
+        const url = `${baseUrl.replace(/\/$/, '')}${scope}/events`
+        const response = await fetchImpl(url, { headers, signal: options.signal })
+        // Only a successful response is a stream, anything else carries an error body like other requests
+        if (response.status >= 400) {
+          throw createError(parseResponse(response, await response.text(), `GET ${url}`))
+        }
+
+        const reader = (response.body as ReadableStream<Uint8Array>).getReader()
+        const decoder = new TextDecoder()
+        let buffer = ''
+        try {
+          for (;;) {
+            const { value, done } = await reader.read()
+            if (done) {
+              return
+            }
+
+            buffer += decoder.decode(value, { stream: true })
+            let index
+            while ((index = buffer.indexOf('\n\n')) !== -1) {
+              const fields = Object.fromEntries(
+                buffer
+                  .slice(0, index)
+                  .split('\n')
+                  .filter((line) => !line.startsWith(':'))
+                  .map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)])
+              )
+              buffer = buffer.slice(index + 2)
+              // Comments such as heartbeats have no event name
+              if (fields.event) {
+                yield { id: +fields.id, type: fields.event, data: JSON.parse(fields.data) } as StreamEvent
+              }
+            }
+          }
+        } finally {
+          reader.cancel().catch(() => {})
+        }
+      },
+    },
+    admin: {
+      reset(options?: RequestOptions) {
+        return request<{ message: string }>({ method: 'POST', path: '/admin/reset' }, options)
+      },
+      purge(options?: RequestOptions) {
+        return request<{ users: string[]; roles: string[] }>({ method: 'POST', path: '/admin/purge' }, options)
+      },
+      snapshots: {
+        list(options?: RequestOptions) {
+          return request<Snapshot[]>({ method: 'GET', path: '/admin/snapshots' }, options)
+        },
+        save(name: string, options?: RequestOptions) {
+          return request<Snapshot>({ method: 'POST', path: '/admin/snapshots', json: { name } }, options)
+        },
+        restore(name: string, options?: RequestOptions) {
+          return request<Snapshot>({ method: 'POST', path: `/admin/snapshots/${encode(name)}/restore` }, options)
+        },
+        delete(name: string, options?: RequestOptions) {
+          return request<Snapshot>({ method: 'DELETE', path: `/admin/snapshots/${encode(name)}` }, options)
+        },
+      },
+      chaos: {
+        list(options?: RequestOptions) {
+          return request<ChaosProfile[]>({ method: 'GET', path: '/admin/chaos' }, options)
+        },
+        add(profile: Omit<ChaosProfile, 'id'>, options?: RequestOptions) {
+          return request<ChaosProfile>({ method: 'POST', path: '/admin/chaos', json: profile }, options)
+        },
+        remove(id: string, options?: RequestOptions) {
+          return request<ChaosProfile>({ method: 'DELETE', path: `/admin/chaos/${encode(id)}` }, options)
+        },
+        clear(options?: RequestOptions) {
+          return request<ChaosProfile[]>({ method: 'DELETE', path: '/admin/chaos' }, options)
+        },
+      },
+    },
+    openApi: {
+      get(options?: RequestOptions) {
+        return request<Record<string, unknown>>({ method: 'GET', path: '/openapi.json' }, options)
+      },
+    },
+  }
+}
+
+export type Client = ReturnType<typeof createClient>
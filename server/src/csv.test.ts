@@ -0,0 +1,41 @@
+import { test, it } from 'node:test'
+import assert from 'node:assert'
+import { formatCsvRow, parseCsv } from './csv'
+
+await test('CSV', async () => {
+  await it('quotes only the values that need it', async () => {
+    assert.strictEqual(
+      formatCsvRow(['Mark', 'Tipton, Jr.', 'says "hi"', null]),
+      'Mark,"Tipton, Jr.","says ""hi""",\r\n'
+    )
+  })
+
+  await it('keeps spreadsheets from running values as formulas', async () => {
+    assert.strictEqual(
+      formatCsvRow(['=HYPERLINK("http://example.com")', '+1', '-1', '@SUM(A1)', '\tTab', 'Plain']),
+      `"'=HYPERLINK(""http://example.com"")",'+1,'-1,'@SUM(A1),'\tTab,Plain\r\n`
+    )
+  })
+
+  await it('parses what it formats', async () => {
+    const rows = [
+      ['first', 'last'],
+      ['Mark', 'Tipton, Jr.'],
+      ['Line\nbreak', '"quoted"'],
+    ]
+
+    assert.deepStrictEqual(parseCsv(rows.map(formatCsvRow).join('')), rows)
+  })
+
+  await it('accepts either line ending, a byte order mark and blank lines', async () => {
+    assert.deepStrictEqual(parseCsv('\ufeffa,b\n\nc,d\r\ne,\n'), [
+      ['a', 'b'],
+      ['c', 'd'],
+      ['e', ''],
+    ])
+  })
+
+  await it('throws on an unterminated quoted field', async () => {
+    assert.throws(() => parseCsv('a,"b\nc,d'), /Unterminated quoted field/)
+  })
+})
@@ -0,0 +1,67 @@
+/**
+ * Formats one CSV record, quoting values that contain a delimiter, a quote or a line break. Values that a spreadsheet
+ * would run as a formula are prefixed with `'`, so that opening an export never runs what users typed in.
+ */
+export function formatCsvRow(values: unknown[]): string {
+  const fields = values.map((value) => {
+    let text = value === undefined || value === null ? '' : String(value)
+    text = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  })
+
+  return fields.join(',') + '\r\n'
+}
+
+/**
+ * Parses CSV text as described by RFC 4180, accepting either line ending and a leading byte order mark.
+ * Blank lines are skipped. Throws if a quoted field is never closed.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  function endRow() {
+    row.push(field)
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row)
+    }
+    row = []
+    field = ''
+  }
+
+  for (; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted field')
+  }
+
+  endRow()
+  return rows
+}
@@ -1,146 +1,217 @@
-export const data = {
+import type { ApiKey, Organization, Role, User } from "./models";
+
+export const data: {
+  organizations: Organization[];
+  users: User[];
+  roles: Role[];
+  apiKeys: ApiKey[];
+} = {
+  organizations: [
+    {
+      id: "de039ba5-6111-4538-979b-ac9da89c82e5",
+      createdAt: "2024-04-01T23:16:10.554Z",
+      updatedAt: "2024-04-01T23:16:10.554Z",
+      name: "Acme",
+      isDefault: true,
+    },
+    {
+      id: "eb96204b-52fa-484b-a9ac-5301656567f5",
+      createdAt: "2024-08-27T23:16:10.554Z",
+      updatedAt: "2024-08-27T23:16:10.554Z",
+      name: "Globex",
+      isDefault: false,
+    },
+  ],
   users: [
     {
       id: "c7deb881-1939-4208-9a63-61a885f02d8f",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-08-27T23:16:10.554Z",
       updatedAt: "2024-09-03T23:16:10.554Z",
       first: "Mark",
       last: "Tipton",
+      email: "mark.tipton@example.com",
+      status: "active",
       roleId: "5237711f-7969-4923-aacc-a623a4e9dac1",
       photo: "https://i.pravatar.cc/400?img=51",
     },
     {
       id: "0d27a858-4136-4391-b29c-2342dec39fff",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-07-16T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       first: "Jennifer",
       last: "Todd",
+      email: "jennifer.todd@example.com",
+      status: "active",
       roleId: "1a235261-fa93-4845-ab48-ee23895998e6",
       photo: "https://i.pravatar.cc/400?img=45",
     },
     {
       id: "0920382f-9751-4daa-8bb0-5683caaa2844",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-07-29T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       first: "Terry",
       last: "Graf",
+      email: "terry.graf@example.com",
+      status: "active",
       roleId: "1a235261-fa93-4845-ab48-ee23895998e6",
       photo: "https://i.pravatar.cc/400?img=7",
     },
     {
       id: "c4b5cd99-ceff-4b1a-a00d-8492f6aff79f",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-04-05T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       first: "Rebecca",
       last: "Morse",
+      email: "rebecca.morse@example.com",
+      status: "active",
       roleId: "6c0a71c0-a5bc-44f8-8634-60f44840d92a",
       photo: "https://i.pravatar.cc/400?img=49",
     },
     {
       id: "0eb78443-4795-4db8-931f-a6efc171e7e9",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-03-08T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       first: "Aaron",
       last: "Bowman",
+      email: "aaron.bowman@example.com",
+      status: "active",
       roleId: "1a235261-fa93-4845-ab48-ee23895998e6",
       photo: "https://i.pravatar.cc/400?img=69",
     },
     {
       id: "ca9b4d00-a7e3-45b8-b7da-3a39e70e8cbe",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-02-19T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       first: "Julius",
       last: "Rivera",
+      email: "julius.rivera@example.com",
+      status: "active",
       roleId: "1a235261-fa93-4845-ab48-ee23895998e6",
       photo: "https://i.pravatar.cc/400?img=68",
     },
     {
       id: "2329ff6a-db33-4f2a-8bec-6b13104d799a",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-05-13T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       first: "Stephanie",
       last: "Nelson",
+      email: "stephanie.nelson@example.com",
+      status: "active",
       roleId: "1a235261-fa93-4845-ab48-ee23895998e6",
       photo: "https://i.pravatar.cc/400?img=16",
     },
     {
       id: "74a6bd4d-6b69-48e7-a87e-f98497f3ac7f",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-05-23T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       first: "Michelle",
       last: "Samuel",
+      email: "michelle.samuel@example.com",
+      status: "active",
       roleId: "36c8de01-e30a-4682-b8cf-962593a8d3b6",
       photo: "https://i.pravatar.cc/400?img=35",
     },
     {
       id: "c7deb881-1939-4208-9a63-61a885f02d81",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-03-12T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       first: "Whitney",
       last: "Morton",
+      email: "whitney.morton@example.com",
+      status: "active",
       roleId: "5237711f-7969-4923-aacc-a623a4e9dac1",
       photo: "https://i.pravatar.cc/400?img=44",
     },
     {
       id: "0d27a858-4136-4391-b29c-2342dec39ff1",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-01-08T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       first: "Riley",
       last: "Baker",
+      email: "riley.baker@example.com",
+      status: "active",
       roleId: "1a235261-fa93-4845-ab48-ee23895998e6",
       photo: "https://i.pravatar.cc/400?img=50",
     },
     {
       id: "0920382f-9751-4daa-8bb0-5683caaa2841",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-07-20T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       first: "Kirsten",
       last: "Keller",
+      email: "kirsten.keller@example.com",
+      status: "active",
       roleId: "1a235261-fa93-4845-ab48-ee23895998e6",
       photo: "https://i.pravatar.cc/400?img=34",
     },
     {
       id: "c4b5cd99-ceff-4b1a-a00d-8492f6aff791",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-03-15T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       first: "Xavier",
       last: "Fernandez",
+      email: "xavier.fernandez@example.com",
+      status: "active",
       roleId: "6c0a71c0-a5bc-44f8-8634-60f44840d92a",
       photo: "https://i.pravatar.cc/400?img=48",
     },
     {
       id: "0eb78443-4795-4db8-931f-a6efc171e7e1",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-04-26T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       first: "Andrew",
       last: "Pennington",
+      email: "andrew.pennington@example.com",
+      status: "active",
       roleId: "1a235261-fa93-4845-ab48-ee23895998e6",
       photo: "https://i.pravatar.cc/400?img=67",
     },
     {
       id: "ca9b4d00-a7e3-45b8-b7da-3a39e70e8cb1",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-06-19T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       first: "Sylvester",
       last: "Jenkins",
+      email: "sylvester.jenkins@example.com",
+      status: "active",
       roleId: "1a235261-fa93-4845-ab48-ee23895998e6",
       photo: "https://i.pravatar.cc/400?img=66",
     },
     {
       id: "2329ff6a-db33-4f2a-8bec-6b13104d7991",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-08-22T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       first: "Lareina",
       last: "Cline",
+      email: "lareina.cline@example.com",
+      status: "active",
       roleId: "1a235261-fa93-4845-ab48-ee23895998e6",
       photo: "https://i.pravatar.cc/400?img=15",
     },
     {
       id: "74a6bd4d-6b69-48e7-a87e-f98497f3ac71",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-03-04T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       first: "Basil",
       last: "Rollins",
+      email: "basil.rollins@example.com",
+      status: "active",
       roleId: "36c8de01-e30a-4682-b8cf-962593a8d3b6",
       photo: "https://i.pravatar.cc/400?img=6",
     },
@@ -148,39 +219,116 @@ export const data = {
   roles: [
     {
       id: "1a235261-fa93-4845-ab48-ee23895998e6",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-08-27T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       name: "Engineering",
       isDefault: false,
+      permissions: ["users:write", "roles:read", "audit:read"],
       description:
         "Engineers build and maintain the software that powers our products and services.",
     },
     {
       id: "5237711f-7969-4923-aacc-a623a4e9dac1",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-08-27T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       name: "Design",
       isDefault: false,
+      permissions: ["users:read", "roles:read"],
       description:
         "Designers create the visual and interactive elements of our products and services.",
     },
     {
       id: "36c8de01-e30a-4682-b8cf-962593a8d3b6",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-08-27T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       name: "Developer Experience",
       isDefault: false,
+      permissions: ["users:read", "roles:read", "audit:read"],
       description:
         "Developer Experience ensures that docs, guides and quick starts are comprehensive and accurate.",
     },
     {
       id: "6c0a71c0-a5bc-44f8-8634-60f44840d92a",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
       createdAt: "2024-08-27T23:16:10.554Z",
       updatedAt: "2024-08-27T23:16:10.554Z",
       name: "Support",
       isDefault: true,
+      permissions: ["users:write"],
       description:
         "Support helps customers with issues and questions about our products and services.",
     },
+    {
+      id: "9049ecb0-a428-4fff-badd-791a434fb77c",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
+      createdAt: "2024-08-27T23:16:10.554Z",
+      updatedAt: "2024-08-27T23:16:10.554Z",
+      name: "Admin",
+      isDefault: false,
+      permissions: ["admin"],
+      description:
+        "Admins manage every user and role, and choose the role new users get.",
+    },
+    {
+      id: "f9ed4324-c750-4af7-9370-64ad157c1bdb",
+      organizationId: "de039ba5-6111-4538-979b-ac9da89c82e5",
+      createdAt: "2024-08-27T23:16:10.554Z",
+      updatedAt: "2024-08-27T23:16:10.554Z",
+      name: "Viewer",
+      isDefault: false,
+      permissions: ["users:read", "roles:read", "audit:read"],
+      description:
+        "Viewers can see users, roles and their history, but not change them.",
+    },
+    {
+      id: "aed73e1a-d4d1-4074-8c44-f07fbb28de1b",
+      organizationId: "eb96204b-52fa-484b-a9ac-5301656567f5",
+      createdAt: "2024-08-27T23:16:10.554Z",
+      updatedAt: "2024-08-27T23:16:10.554Z",
+      name: "Admin",
+      isDefault: false,
+      permissions: ["admin"],
+      description: "Admins manage every user and role in Globex.",
+    },
+    {
+      id: "bb3be417-5775-4232-a8d8-d5e5434c5a76",
+      organizationId: "eb96204b-52fa-484b-a9ac-5301656567f5",
+      createdAt: "2024-08-27T23:16:10.554Z",
+      updatedAt: "2024-08-27T23:16:10.554Z",
+      name: "Member",
+      isDefault: true,
+      permissions: ["users:read", "roles:read"],
+      description: "Members can see the other users and roles in Globex.",
+    },
+  ],
+  // Hashes of the keys "dev-admin-key", "dev-engineering-key", "dev-viewer-key" and "dev-globex-key"
+  apiKeys: [
+    {
+      id: "df76ff796f70d2c9cb055ea6280553caa27eda26b70e01082c160de75a05a4a9",
+      name: "Development admin",
+      roleId: "9049ecb0-a428-4fff-badd-791a434fb77c",
+      createdAt: "2024-08-27T23:16:10.554Z",
+    },
+    {
+      id: "1786bc44f728ecfcc863eda110735413f5be94493929c223b4a0f9fbd0f3d0c8",
+      name: "Development engineer",
+      roleId: "1a235261-fa93-4845-ab48-ee23895998e6",
+      createdAt: "2024-08-27T23:16:10.554Z",
+    },
+    {
+      id: "d07bb46a73e9d6b0d4482c098a58db8243bdfa876acf21e7b50e41547f991bcb",
+      name: "Development viewer",
+      roleId: "f9ed4324-c750-4af7-9370-64ad157c1bdb",
+      createdAt: "2024-08-27T23:16:10.554Z",
+    },
+    {
+      id: "4763e480ccf7dc583baddba37894eb1dc1fabf79bfc9d82a4a8b00710e18f124",
+      name: "Globex admin",
+      roleId: "aed73e1a-d4d1-4074-8c44-f07fbb28de1b",
+      createdAt: "2024-08-27T23:16:10.554Z",
+    },
   ],
 };
@@ -0,0 +1,88 @@
+import type express from 'express'
+
+import type { ChangeEvent, ChangeEventType, Role, User } from './models'
+
+export interface ChangeStream {
+  publish(type: ChangeEventType, data: User | Role): ChangeEvent
+  /**
+   * Streams change events to the client as Server-Sent Events until the connection closes, leaving out events
+   * that don't pass the filter.
+   */
+  connect(req: express.Request, res: express.Response, filter?: (event: ChangeEvent) => boolean): void
+  /** Ends every open connection. */
+  close(): void
+}
+
+const heartbeatIntervalInMs = 15000
+
+function formatEvent(event: ChangeEvent) {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`
+}
+
+export function createChangeStream(historySize = 1000): ChangeStream {
+  const clients = new Map<express.Response, (event: ChangeEvent) => boolean>()
+  // Recent events are kept so that reconnecting clients can resume from their Last-Event-ID
+  const history: ChangeEvent[] = []
+  let lastId = 0
+
+  function replay(res: express.Response, lastEventId: number, filter: (event: ChangeEvent) => boolean) {
+    const missed = history.filter((event) => event.id > lastEventId && filter(event))
+    const oldest = history.length ? history[0].id : lastId + 1
+    if (lastEventId < oldest - 1 || lastEventId > lastId) {
+      // Some events are no longer available, so the client can't catch up incrementally and has to refetch
+      res.write(`id: ${lastId}\nevent: resync\ndata: {}\n\n`)
+      return
+    }
+
+    for (const event of missed) {
+      res.write(formatEvent(event))
+    }
+  }
+
+  return {
+    publish(type, data) {
+      const event = { id: ++lastId, type, data }
+      history.push(event)
+      if (history.length > historySize) {
+        history.shift()
+      }
+
+      for (const [res, filter] of clients) {
+        if (filter(event)) {
+          res.write(formatEvent(event))
+        }
+      }
+
+      return event
+    },
+    connect(req, res, filter = () => true) {
+      res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      })
+      res.flushHeaders()
+      res.write(': connected\n\n')
+
+      const lastEventId = req.get('Last-Event-ID') || (req.query.lastEventId as string)
+      if (lastEventId) {
+        replay(res, +lastEventId || 0, filter)
+      }
+
+      const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), heartbeatIntervalInMs)
+      heartbeat.unref()
+
+      clients.set(res, filter)
+      req.on('close', () => {
+        clearInterval(heartbeat)
+        clients.delete(res)
+      })
+    },
+    close() {
+      for (const res of clients.keys()) {
+        res.end()
+      }
+      clients.clear()
+    },
+  }
+}
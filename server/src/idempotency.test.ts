@@ -0,0 +1,62 @@
+import { test, it } from 'node:test'
+import assert from 'node:assert'
+import { createIdempotencyCache } from './idempotency'
+
+const response = { status: 200, headers: { etag: '"1"' }, body: { id: '1' } }
+
+await test('Idempotency cache', async () => {
+  await it('replays the saved response for the same request', async () => {
+    const cache = createIdempotencyCache()
+    const first = cache.begin('a', 'create', 60, 0)
+    const during = cache.begin('a', 'create', 60, 0)
+    cache.complete('a', response)
+    const after = cache.begin('a', 'create', 60, 1000)
+
+    assert.strictEqual(first.kind, 'new')
+    assert.strictEqual(during.kind, 'inProgress')
+    assert.deepStrictEqual(after, { kind: 'replay', response })
+  })
+
+  await it('rejects a key reused for a different request', async () => {
+    const cache = createIdempotencyCache()
+    cache.begin('a', 'create', 60, 0)
+    cache.complete('a', response)
+
+    assert.strictEqual(cache.begin('a', 'update', 60, 0).kind, 'mismatch')
+  })
+
+  await it('forgets keys once their window has passed', async () => {
+    const cache = createIdempotencyCache()
+    cache.begin('a', 'create', 60, 0)
+    cache.complete('a', response)
+
+    assert.strictEqual(cache.begin('a', 'create', 60, 59999).kind, 'replay')
+    assert.strictEqual(cache.begin('a', 'update', 60, 60000).kind, 'new')
+  })
+
+  await it('lets a released key be tried again, unless its response was saved', async () => {
+    const cache = createIdempotencyCache()
+    cache.begin('a', 'create', 60, 0)
+    cache.release('a')
+    cache.begin('b', 'create', 60, 0)
+    cache.complete('b', response)
+    cache.release('b')
+
+    assert.strictEqual(cache.begin('a', 'create', 60, 0).kind, 'new')
+    assert.strictEqual(cache.begin('b', 'create', 60, 0).kind, 'replay')
+  })
+
+  await it('replays copies that later changes cannot reach', async () => {
+    const cache = createIdempotencyCache()
+    const body = { id: '1' }
+    cache.begin('a', 'create', 60, 0)
+    cache.complete('a', { ...response, body })
+    body.id = '2'
+    const replayed = cache.begin('a', 'create', 60, 0)
+    if (replayed.kind === 'replay') {
+      ;(replayed.response.body as { id: string }).id = '3'
+    }
+
+    assert.deepStrictEqual(cache.begin('a', 'create', 60, 0), { kind: 'replay', response })
+  })
+})
@@ -0,0 +1,84 @@
+export interface SavedResponse {
+  status: number
+  headers: Record<string, string>
+  body: unknown
+}
+
+export type IdempotencyResult =
+  /** The key hasn't been seen, or has expired, so the request should be handled and its response saved. */
+  | { kind: 'new' }
+  /** A request with the key is still being handled. */
+  | { kind: 'inProgress' }
+  /** The key was first used for a different request. */
+  | { kind: 'mismatch' }
+  /** The request was already handled, and should be answered with the saved response. */
+  | { kind: 'replay'; response: SavedResponse }
+
+export interface IdempotencyCache {
+  /**
+   * Looks up the key, claiming it for this request when it is new. `fingerprint` identifies the request, so that
+   * a key can't be reused for another one, and the response is kept for `windowInSeconds` from now.
+   */
+  begin(key: string, fingerprint: string, windowInSeconds: number, now?: number): IdempotencyResult
+  /** Saves the response to replay for the key. */
+  complete(key: string, response: SavedResponse): void
+  /** Gives up the claim on a key whose request ended without a response to save, so it can be tried again. */
+  release(key: string): void
+  clear(): void
+}
+
+interface Entry {
+  fingerprint: string
+  expiresAt: number
+  response?: SavedResponse
+}
+
+// Expired entries are dropped once there are this many, to keep one-off keys from growing the map without bound
+const maxEntries = 10000
+
+export function createIdempotencyCache(): IdempotencyCache {
+  const entries = new Map<string, Entry>()
+
+  function sweep(now: number) {
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) {
+        entries.delete(key)
+      }
+    }
+  }
+
+  return {
+    begin(key, fingerprint, windowInSeconds, now = Date.now()) {
+      if (!entries.has(key) && entries.size >= maxEntries) {
+        sweep(now)
+      }
+
+      const entry = entries.get(key)
+      if (entry && entry.expiresAt > now) {
+        if (entry.fingerprint !== fingerprint) {
+          return { kind: 'mismatch' }
+        }
+
+        return entry.response ? { kind: 'replay', response: structuredClone(entry.response) } : { kind: 'inProgress' }
+      }
+
+      entries.set(key, { fingerprint, expiresAt: now + windowInSeconds * 1000 })
+      return { kind: 'new' }
+    },
+    complete(key, response) {
+      const entry = entries.get(key)
+      if (entry) {
+        // Copied, so that later changes to the objects the response was made from don't change what is replayed
+        entry.response = structuredClone(response)
+      }
+    },
+    release(key) {
+      if (!entries.get(key)?.response) {
+        entries.delete(key)
+      }
+    },
+    clear() {
+      entries.clear()
+    },
+  }
+}
@@ -0,0 +1,8 @@
+export interface ApiKey {
+  /** SHA-256 hash of the key, so the store never holds a usable key. */
+  id: string;
+  name: string;
+  /** Requests made with the key are allowed whatever this role's permissions allow. */
+  roleId: string;
+  createdAt: string;
+}
@@ -0,0 +1,20 @@
+export type AuditEntityType = "user" | "role";
+
+export type AuditAction = "created" | "updated" | "deleted" | "restored" | "purged";
+
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEvent {
+  id: string;
+  createdAt: string;
+  organizationId: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  changes: Record<string, AuditChange>;
+  actor: string | null;
+  causedBy: string | null;
+}
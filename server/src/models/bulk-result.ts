@@ -0,0 +1,11 @@
+export interface BulkResultItem<T> {
+  id: string;
+  status: number;
+  message?: string;
+  data?: T;
+}
+
+export interface BulkResult<T> {
+  message?: string;
+  results: BulkResultItem<T>[];
+}
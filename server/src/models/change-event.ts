@@ -0,0 +1,11 @@
+import type { AuditAction, AuditEntityType } from "./audit-event";
+import type { Role } from "./role";
+import type { User } from "./user";
+
+export type ChangeEventType = `${AuditEntityType}.${AuditAction}`;
+
+export interface ChangeEvent {
+  id: number;
+  type: ChangeEventType;
+  data: User | Role;
+}
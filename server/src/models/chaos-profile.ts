@@ -0,0 +1,12 @@
+export type FailureType = "error" | "timeout" | "drop" | "malformed";
+
+export interface ChaosProfile {
+  id: string;
+  method?: string;
+  path?: string;
+  minLatency?: number;
+  maxLatency?: number;
+  errorRate?: number;
+  errorStatus?: number;
+  failure?: FailureType;
+}
@@ -0,0 +1,24 @@
+import type { AuditChange } from "./audit-event";
+
+export type ImportAction = "create" | "update" | "unchanged";
+
+export interface ImportRowResult {
+  /** Line number in the CSV, counting the header as line 1. */
+  row: number;
+  /** Left out when the row has errors. */
+  action?: ImportAction;
+  /** Left out for users that would be created in a dry run, since they don't have an id yet. */
+  id?: string;
+  changes?: Record<string, AuditChange>;
+  errors?: { field: string; message: string }[];
+}
+
+export interface ImportResult {
+  message?: string;
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
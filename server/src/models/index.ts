@@ -1,3 +1,14 @@
+export * from "./api-key";
+export * from "./audit-event";
+export * from "./bulk-result";
+export * from "./change-event";
+export * from "./chaos-profile";
+export * from "./import-result";
+export * from "./invitation";
+export * from "./match-ranges";
+export * from "./organization";
 export * from "./paged-data";
+export * from "./permission";
 export * from "./role";
+export * from "./snapshot";
 export * from "./user";
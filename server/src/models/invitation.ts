@@ -0,0 +1,6 @@
+export interface Invitation {
+  /** SHA-256 hash of the token that accepts the invitation, so the store never holds a usable token. */
+  id: string;
+  userId: string;
+  createdAt: string;
+}
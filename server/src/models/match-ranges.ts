@@ -0,0 +1,2 @@
+/** Start (inclusive) and end (exclusive) positions of search matches, by field. */
+export type MatchRanges = Record<string, [number, number][]>;
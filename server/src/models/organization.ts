@@ -0,0 +1,8 @@
+export interface Organization {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  name: string;
+  /** Requests that don't name an organization, and aren't made with an API key, act on the default one. */
+  isDefault: boolean;
+}
@@ -3,4 +3,7 @@ export interface PagedData<T> {
   next: number | null;
   prev: number | null;
   pages: number;
+  total: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
 }
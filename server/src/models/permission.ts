@@ -0,0 +1,6 @@
+export interface Permission {
+  name: string;
+  description: string;
+  /** Other permissions that come with this one, such as read access for a permission to edit. */
+  implies: string[];
+}
@@ -1,8 +1,18 @@
+import type { MatchRanges } from "./match-ranges";
+
 export interface Role {
   id: string;
+  /** Roles belong to a single organization, and can only be given to its users. */
+  organizationId: string;
   createdAt: string;
   updatedAt: string;
+  /** Set when the role has been deleted. Deleted roles can be restored until they are purged. */
+  deletedAt?: string;
   name: string;
   description?: string;
   isDefault: boolean;
+  /** Names of permissions from the catalog that users with this role are granted. */
+  permissions: string[];
+  userCount?: number;
+  matches?: MatchRanges;
 }
@@ -0,0 +1,6 @@
+export interface Snapshot {
+  name: string;
+  createdAt: string;
+  userCount: number;
+  roleCount: number;
+}
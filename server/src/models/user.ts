@@ -1,9 +1,23 @@
+import type { MatchRanges } from "./match-ranges";
+import type { Role } from "./role";
+
+export type UserStatus = "invited" | "active" | "suspended";
+
 export interface User {
   id: string;
+  /** Users belong to a single organization and never move between them. */
+  organizationId: string;
   createdAt: string;
   updatedAt: string;
+  /** Set when the user has been deleted. Deleted users can be restored until they are purged. */
+  deletedAt?: string;
   first: string;
   last: string;
+  email: string;
+  /** Invited users become active once they accept their invitation. */
+  status: UserStatus;
   roleId: string;
   photo?: string;
+  role?: Role;
+  matches?: MatchRanges;
 }
@@ -0,0 +1,1121 @@
+import { chaosProfileSchema, roleSchema, snapshotSchema, toJsonSchema, userSchema } from './schemas'
+import { permissionNames } from './permissions'
+import { matchModes } from './search'
+
+import type { JsonSchema } from './schemas'
+
+interface Parameter {
+  name: string
+  in: 'query' | 'path' | 'header'
+  description?: string
+  required?: boolean
+  explode?: boolean
+  schema: JsonSchema
+}
+
+interface Response {
+  description: string
+  headers?: Record<string, { description: string; schema: JsonSchema }>
+  content?: Record<string, { schema: JsonSchema }>
+}
+
+interface Operation {
+  operationId: string
+  summary: string
+  tags: string[]
+  parameters?: Parameter[]
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> }
+  responses: Record<string, Response>
+  security?: Record<string, string[]>[]
+}
+
+export interface OpenApiDocument {
+  openapi: string
+  info: { title: string; version: string; description: string }
+  tags: { name: string; description: string }[]
+  paths: Record<string, Partial<Record<'get' | 'post' | 'patch' | 'delete', Operation>>>
+  components: {
+    schemas: Record<string, JsonSchema>
+    securitySchemes: Record<string, { type: string; scheme?: string; in?: string; name?: string }>
+  }
+}
+
+// ---------------
+// Schema Builders
+// ---------------
+
+function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` }
+}
+
+/** A closed object, so that undocumented fields in a response count as a mismatch. */
+function object(properties: Record<string, JsonSchema>, optional: string[] = []): JsonSchema {
+  const required = Object.keys(properties).filter((key) => !optional.includes(key))
+  return { type: 'object', properties, required, additionalProperties: false }
+}
+
+function arrayOf(items: JsonSchema): JsonSchema {
+  return { type: 'array', items }
+}
+
+function nullable(schema: JsonSchema): JsonSchema {
+  return { ...schema, nullable: true }
+}
+
+const string: JsonSchema = { type: 'string' }
+const integer: JsonSchema = { type: 'integer' }
+const boolean: JsonSchema = { type: 'boolean' }
+const dateTime: JsonSchema = { type: 'string', format: 'date-time' }
+const change = object({ before: {}, after: {} })
+
+function pagedData(item: JsonSchema): JsonSchema {
+  return object({
+    data: arrayOf(item),
+    next: nullable(integer),
+    prev: nullable(integer),
+    pages: integer,
+    total: integer,
+    nextCursor: nullable(string),
+    prevCursor: nullable(string),
+  })
+}
+
+// -----------------
+// Response Builders
+// -----------------
+
+function json(description: string, schema: JsonSchema): Response {
+  return { description, content: { 'application/json': { schema } } }
+}
+
+function entity(description: string, schema: JsonSchema): Response {
+  return {
+    ...json(description, schema),
+    headers: { ETag: { description: 'Version of the entity, for use in `If-Match`', schema: string } },
+  }
+}
+
+function csv(description: string): Response {
+  return { description, content: { 'text/csv': { schema: string } } }
+}
+
+function error(description: string): Response {
+  return json(description, ref('Error'))
+}
+
+// Simulated failures can answer any request with any error status
+const defaultResponse = { default: error('Unexpected or simulated error') }
+
+const rateLimitHeaders = {
+  'RateLimit-Limit': { description: 'Requests allowed in a burst', schema: integer },
+  'RateLimit-Remaining': { description: 'Requests left in the current budget', schema: integer },
+  'RateLimit-Reset': { description: 'Seconds until the budget is full again', schema: integer },
+  'RateLimit-Policy': {
+    description: 'The burst size and the seconds it takes to refill, as `100;w=10`',
+    schema: string,
+  },
+}
+
+// Routes behind authentication and the rate limiter, when they are enabled
+const limitedResponses = {
+  401: error('Invalid API key, or none for a request that needs one'),
+  429: {
+    ...error('Rate limit exceeded'),
+    headers: {
+      ...rateLimitHeaders,
+      'Retry-After': { description: 'Seconds to wait before retrying', schema: integer },
+    },
+  },
+  ...defaultResponse,
+}
+
+// Reads and changes need an API key whose role grants the permission, when authentication is enabled
+const apiKeySecurity: Record<string, string[]>[] = [{ bearerAuth: [] }, { apiKeyHeader: [] }]
+
+const idempotencyKeyParameter: Parameter = {
+  name: 'Idempotency-Key',
+  in: 'header',
+  description: 'Answer repeats of the request with the response to the first one, instead of applying it again',
+  schema: { type: 'string', minLength: 1, maxLength: 255 },
+}
+
+/** Documents the `Idempotency-Key` header of a create or bulk operation. */
+function idempotent(operation: Operation): Operation {
+  const { parameters = [], responses } = operation
+  return {
+    ...operation,
+    parameters: [...parameters, idempotencyKeyParameter],
+    responses: {
+      ...responses,
+      400: { ...responses[400], description: `${responses[400].description}, or an invalid idempotency key` },
+      409: error('A request with the same idempotency key is still being handled'),
+      422: error(
+        responses[422]
+          ? 'Invalid fields, or the idempotency key was used for a different request'
+          : 'The idempotency key was used for a different request'
+      ),
+    },
+  }
+}
+
+function forbidden(permission: string) {
+  return { 403: error(`The role of the API key does not grant ${permission}`) }
+}
+
+function jsonBody(schema: JsonSchema) {
+  return { required: true, content: { 'application/json': { schema } } }
+}
+
+// ------------------
+// Parameter Builders
+// ------------------
+
+function query(name: string, description: string, schema: JsonSchema = string): Parameter {
+  return { name, in: 'query', description, schema }
+}
+
+function queryList(name: string, description: string, items: JsonSchema = string): Parameter {
+  return {
+    name,
+    in: 'query',
+    description: `${description} Repeat the parameter or separate values with commas.`,
+    explode: true,
+    schema: arrayOf(items),
+  }
+}
+
+function path(name: string, description: string): Parameter {
+  return { name, in: 'path', description, required: true, schema: string }
+}
+
+const idParameter = path('id', 'The id of the entity')
+const orgIdParameter = path('orgId', 'The id of the organization')
+const ifMatchParameter: Parameter = {
+  name: 'If-Match',
+  in: 'header',
+  description: 'Only apply the change if the entity still has one of these ETags',
+  schema: string,
+}
+const includeDeletedParameter = query('includeDeleted', 'Include deleted records', { type: 'string', enum: ['true'] })
+const expandParameter = queryList('expand', 'Related entities to embed.', { type: 'string', enum: ['role'] })
+
+function listParameters(sortFields: string[]): Parameter[] {
+  return [
+    query('page', 'Page number, starting from 1', integer),
+    query('limit', 'Page size, capped by the server', integer),
+    query('cursor', 'Opaque cursor from `nextCursor` or `prevCursor`, used instead of `page`'),
+    query('sort', 'Field to sort by. Searches sort by `relevance` by default.', { type: 'string', enum: sortFields }),
+    query('order', 'Sort order', { type: 'string', enum: ['asc', 'desc'] }),
+    query('search', 'Terms that must all match, ignoring case and accents'),
+    query('match', 'How search terms match', { type: 'string', enum: matchModes }),
+    query('highlight', 'Include the `matches` of each result', { type: 'string', enum: ['true'] }),
+  ]
+}
+
+// Export routes take the same filters as the lists, but return everything in one go
+function exportParameters(parameters: Parameter[]): Parameter[] {
+  return parameters.filter(({ name }) => !['page', 'limit', 'cursor', 'highlight'].includes(name))
+}
+
+const userListParameters = [
+  ...listParameters(['first', 'last', 'role', 'createdAt', 'updatedAt', 'relevance']),
+  queryList('roleId', 'Only include users with one of these roles.'),
+  queryList('status', 'Only include users with one of these statuses.', ref('UserStatus')),
+  includeDeletedParameter,
+]
+
+const roleListParameters = [
+  ...listParameters(['name', 'description', 'isDefault', 'createdAt', 'updatedAt', 'relevance']),
+  includeDeletedParameter,
+]
+
+// -------
+// Schemas
+// -------
+
+const chaosProfileFields = Object.keys(chaosProfileSchema)
+
+const schemas: Record<string, JsonSchema> = {
+  Error: object(
+    {
+      message: string,
+      errors: arrayOf(ref('FieldError')),
+      data: { oneOf: [ref('User'), ref('Role')], description: 'The current entity, when a precondition failed' },
+    },
+    ['errors', 'data']
+  ),
+  FieldError: object({ field: string, message: string }),
+  MatchRanges: {
+    type: 'object',
+    description: 'Start and end positions of the matched text, by field',
+    additionalProperties: arrayOf({ type: 'array', items: integer, minItems: 2, maxItems: 2 }),
+  },
+  UserStatus: { type: 'string', enum: ['invited', 'active', 'suspended'] },
+  Organization: object({ id: string, createdAt: dateTime, updatedAt: dateTime, name: string, isDefault: boolean }),
+  User: object(
+    {
+      id: string,
+      organizationId: string,
+      createdAt: dateTime,
+      updatedAt: dateTime,
+      deletedAt: dateTime,
+      first: string,
+      last: string,
+      email: string,
+      status: ref('UserStatus'),
+      roleId: string,
+      photo: string,
+      role: ref('Role'),
+      matches: ref('MatchRanges'),
+    },
+    ['deletedAt', 'photo', 'role', 'matches']
+  ),
+  Role: object(
+    {
+      id: string,
+      organizationId: string,
+      createdAt: dateTime,
+      updatedAt: dateTime,
+      deletedAt: dateTime,
+      name: string,
+      description: string,
+      isDefault: boolean,
+      permissions: arrayOf({ type: 'string', enum: permissionNames }),
+      userCount: integer,
+      matches: ref('MatchRanges'),
+    },
+    ['deletedAt', 'description', 'userCount', 'matches']
+  ),
+  Permission: object({ name: string, description: string, implies: arrayOf(string) }),
+  AuditEvent: object({
+    id: string,
+    createdAt: dateTime,
+    organizationId: string,
+    entityType: { type: 'string', enum: ['user', 'role'] },
+    entityId: string,
+    action: { type: 'string', enum: ['created', 'updated', 'deleted', 'restored', 'purged'] },
+    changes: { type: 'object', additionalProperties: change },
+    actor: nullable(string),
+    causedBy: nullable(string),
+  }),
+  PagedOrganizations: pagedData(ref('Organization')),
+  PagedUsers: pagedData(ref('User')),
+  PagedRoles: pagedData(ref('Role')),
+  PagedAuditEvents: pagedData(ref('AuditEvent')),
+  BulkUserResult: object(
+    {
+      message: string,
+      results: arrayOf(
+        object({ id: string, status: integer, message: string, data: ref('User') }, ['message', 'data'])
+      ),
+    },
+    ['message']
+  ),
+  ImportResult: object(
+    {
+      message: string,
+      dryRun: boolean,
+      created: integer,
+      updated: integer,
+      unchanged: integer,
+      failed: integer,
+      rows: arrayOf(
+        object(
+          {
+            row: integer,
+            action: { type: 'string', enum: ['create', 'update', 'unchanged'] },
+            id: string,
+            changes: { type: 'object', additionalProperties: change },
+            errors: arrayOf(ref('FieldError')),
+          },
+          ['action', 'id', 'changes', 'errors']
+        )
+      ),
+    },
+    ['message']
+  ),
+  Invitation: object({ token: string, user: ref('User') }),
+  Snapshot: object({ name: string, createdAt: dateTime, userCount: integer, roleCount: integer }),
+  ChaosProfile: object({ id: string, ...toJsonSchema(chaosProfileSchema).properties }, chaosProfileFields),
+  PurgeResult: object({ users: arrayOf(string), roles: arrayOf(string) }),
+  CreateUser: toJsonSchema(userSchema, ['first', 'last', 'email', 'roleId']),
+  UpdateUser: toJsonSchema(userSchema),
+  InviteUser: toJsonSchema(userSchema, ['first', 'last', 'email']),
+  CreateRole: toJsonSchema(roleSchema, ['name']),
+  UpdateRole: toJsonSchema(roleSchema),
+  BulkRequest: object(
+    {
+      ids: arrayOf(string),
+      atomic: { type: 'boolean', description: 'Set to false to apply the changes that can be, instead of none' },
+    },
+    ['atomic']
+  ),
+}
+
+// -----
+// Paths
+// -----
+
+const userPaths: OpenApiDocument['paths'] = {
+  '/users': {
+    get: {
+      operationId: 'listUsers',
+      summary: 'List users',
+      tags: ['Users'],
+      parameters: [...userListParameters, expandParameter],
+      security: apiKeySecurity,
+      responses: {
+        200: json('A page of users', ref('PagedUsers')),
+        400: error('Invalid parameters'),
+        ...forbidden('users:read'),
+        ...limitedResponses,
+      },
+    },
+    post: idempotent({
+      operationId: 'createUser',
+      summary: 'Create an active user',
+      tags: ['Users'],
+      requestBody: jsonBody(ref('CreateUser')),
+      security: apiKeySecurity,
+      responses: {
+        200: entity('The new user', ref('User')),
+        400: error('Missing fields, an unknown role or an email in use'),
+        422: error('Invalid fields'),
+        ...forbidden('users:write'),
+        ...limitedResponses,
+      },
+    }),
+  },
+  '/users/export': {
+    get: {
+      operationId: 'exportUsers',
+      summary: 'Download users as CSV',
+      tags: ['Users'],
+      parameters: exportParameters(userListParameters),
+      security: apiKeySecurity,
+      responses: {
+        200: csv('Every matching user'),
+        400: error('Invalid parameters'),
+        ...forbidden('users:read'),
+        ...limitedResponses,
+      },
+    },
+  },
+  '/users/import': {
+    post: idempotent({
+      operationId: 'importUsers',
+      summary: 'Create and update users from CSV',
+      tags: ['Users'],
+      parameters: [
+        query('dryRun', 'Report the planned changes without applying them', { type: 'string', enum: ['true'] }),
+      ],
+      requestBody: { required: true, content: { 'text/csv': { schema: string } } },
+      security: apiKeySecurity,
+      responses: {
+        200: json('The result of every row', ref('ImportResult')),
+        400: json('Invalid CSV, or rows with errors', { oneOf: [ref('ImportResult'), ref('Error')] }),
+        415: error('The body is not CSV'),
+        ...forbidden('users:write'),
+        ...limitedResponses,
+      },
+    }),
+  },
+  '/users/invite': {
+    post: idempotent({
+      operationId: 'inviteUser',
+      summary: 'Create an invited user',
+      tags: ['Users'],
+      requestBody: jsonBody(ref('InviteUser')),
+      security: apiKeySecurity,
+      responses: {
+        200: json('The invited user and the token to accept the invitation with', ref('Invitation')),
+        400: error('Missing fields, an unknown role or an email in use'),
+        422: error('Invalid fields'),
+        ...forbidden('users:write'),
+        ...limitedResponses,
+      },
+    }),
+  },
+  '/users/accept-invite': {
+    post: {
+      operationId: 'acceptInvite',
+      summary: 'Activate an invited user',
+      tags: ['Users'],
+      requestBody: jsonBody(object({ token: string })),
+      responses: {
+        200: entity('The activated user', ref('User')),
+        400: error('Missing token'),
+        404: error('No invitation has the token'),
+        ...limitedResponses,
+      },
+    },
+  },
+  '/users/bulk-delete': {
+    post: idempotent({
+      operationId: 'bulkDeleteUsers',
+      summary: 'Delete several users',
+      tags: ['Users'],
+      requestBody: jsonBody(ref('BulkRequest')),
+      security: apiKeySecurity,
+      responses: {
+        200: json('The result for each id', ref('BulkUserResult')),
+        400: json('Missing ids, or some users were not found', { oneOf: [ref('BulkUserResult'), ref('Error')] }),
+        ...forbidden('users:delete'),
+        ...limitedResponses,
+      },
+    }),
+  },
+  '/users/bulk-assign-role': {
+    post: idempotent({
+      operationId: 'bulkAssignRole',
+      summary: 'Give several users the same role',
+      tags: ['Users'],
+      requestBody: jsonBody(object({ ids: arrayOf(string), atomic: boolean, roleId: string }, ['atomic'])),
+      security: apiKeySecurity,
+      responses: {
+        200: json('The result for each id', ref('BulkUserResult')),
+        400: json('Missing fields, an unknown role, or some users were not found', {
+          oneOf: [ref('BulkUserResult'), ref('Error')],
+        }),
+        ...forbidden('users:write'),
+        ...limitedResponses,
+      },
+    }),
+  },
+  '/users/{id}': {
+    get: {
+      operationId: 'getUser',
+      summary: 'Get a user',
+      tags: ['Users'],
+      parameters: [idParameter, expandParameter, includeDeletedParameter],
+      security: apiKeySecurity,
+      responses: {
+        200: entity('The user', ref('User')),
+        400: error('Invalid parameters'),
+        404: error('User not found'),
+        ...forbidden('users:read'),
+        ...limitedResponses,
+      },
+    },
+    patch: {
+      operationId: 'updateUser',
+      summary: 'Update a user',
+      tags: ['Users'],
+      parameters: [idParameter, ifMatchParameter],
+      requestBody: jsonBody(ref('UpdateUser')),
+      security: apiKeySecurity,
+      responses: {
+        200: entity('The updated user', ref('User')),
+        400: error('An unknown role or an email in use'),
+        404: error('User not found'),
+        412: error('The user has changed since the given ETag'),
+        422: error('Invalid fields'),
+        ...forbidden('users:write'),
+        ...limitedResponses,
+      },
+    },
+    delete: {
+      operationId: 'deleteUser',
+      summary: 'Delete a user, leaving it restorable until it is purged',
+      tags: ['Users'],
+      parameters: [idParameter, ifMatchParameter],
+      security: apiKeySecurity,
+      responses: {
+        200: json('The deleted user', ref('User')),
+        404: error('User not found'),
+        412: error('The user has changed since the given ETag'),
+        ...forbidden('users:delete'),
+        ...limitedResponses,
+      },
+    },
+  },
+  '/users/{id}/permissions': {
+    get: {
+      operationId: 'getUserPermissions',
+      summary: "Get the permissions a user's role grants, including implied ones",
+      tags: ['Users'],
+      parameters: [idParameter],
+      security: apiKeySecurity,
+      responses: {
+        200: json(
+          'Permission names, empty unless the user is active',
+          arrayOf({ type: 'string', enum: permissionNames })
+        ),
+        404: error('User not found'),
+        ...forbidden('users:read'),
+        ...limitedResponses,
+      },
+    },
+  },
+  ...Object.fromEntries(
+    [
+      [
+        'restore',
+        'restoreUser',
+        'Restore a deleted user',
+        'The user is not deleted, or its email is in use',
+        'users:delete',
+      ],
+      ['suspend', 'suspendUser', 'Suspend an active user', 'The user is not active', 'users:write'],
+      ['reactivate', 'reactivateUser', 'Reactivate a suspended user', 'The user is not suspended', 'users:write'],
+    ].map(([action, operationId, summary, conflict, permission]) => [
+      `/users/{id}/${action}`,
+      {
+        post: {
+          operationId,
+          summary,
+          tags: ['Users'],
+          parameters: [idParameter, ifMatchParameter],
+          security: apiKeySecurity,
+          responses: {
+            200: entity('The user', ref('User')),
+            400: error(conflict),
+            404: error('User not found'),
+            412: error('The user has changed since the given ETag'),
+            ...forbidden(permission),
+            ...limitedResponses,
+          },
+        },
+      },
+    ])
+  ),
+}
+
+const rolePaths: OpenApiDocument['paths'] = {
+  '/roles': {
+    get: {
+      operationId: 'listRoles',
+      summary: 'List roles with their user counts',
+      tags: ['Roles'],
+      parameters: roleListParameters,
+      security: apiKeySecurity,
+      responses: {
+        200: json('A page of roles', ref('PagedRoles')),
+        400: error('Invalid parameters'),
+        ...forbidden('roles:read'),
+        ...limitedResponses,
+      },
+    },
+    post: idempotent({
+      operationId: 'createRole',
+      summary: 'Create a role',
+      tags: ['Roles'],
+      requestBody: jsonBody(ref('CreateRole')),
+      security: apiKeySecurity,
+      responses: {
+        200: entity('The new role', ref('Role')),
+        400: error('Missing name, or the name is in use'),
+        422: error('Invalid fields'),
+        ...forbidden('roles:write, or admin to make the role the default or to grant admin'),
+        ...limitedResponses,
+      },
+    }),
+  },
+  '/roles/export': {
+    get: {
+      operationId: 'exportRoles',
+      summary: 'Download roles as CSV',
+      tags: ['Roles'],
+      parameters: exportParameters(roleListParameters),
+      security: apiKeySecurity,
+      responses: {
+        200: csv('Every matching role'),
+        400: error('Invalid parameters'),
+        ...forbidden('roles:read'),
+        ...limitedResponses,
+      },
+    },
+  },
+  '/roles/{id}': {
+    get: {
+      operationId: 'getRole',
+      summary: 'Get a role with its user count',
+      tags: ['Roles'],
+      parameters: [idParameter, includeDeletedParameter],
+      security: apiKeySecurity,
+      responses: {
+        200: entity('The role', ref('Role')),
+        404: error('Role not found'),
+        ...forbidden('roles:read'),
+        ...limitedResponses,
+      },
+    },
+    patch: {
+      operationId: 'updateRole',
+      summary: 'Update a role',
+      tags: ['Roles'],
+      parameters: [idParameter, ifMatchParameter],
+      requestBody: jsonBody(ref('UpdateRole')),
+      security: apiKeySecurity,
+      responses: {
+        200: entity('The updated role', ref('Role')),
+        400: error('The name is in use, or the default role would be unset'),
+        404: error('Role not found'),
+        412: error('The role has changed since the given ETag'),
+        422: error('Invalid fields'),
+        ...forbidden('roles:write, or admin to make the role the default or to change a role that grants admin'),
+        ...limitedResponses,
+      },
+    },
+    delete: {
+      operationId: 'deleteRole',
+      summary: 'Delete a role and move its users to the default role',
+      tags: ['Roles'],
+      parameters: [idParameter, ifMatchParameter],
+      security: apiKeySecurity,
+      responses: {
+        200: json('The deleted role', ref('Role')),
+        400: error('The role is the default role'),
+        404: error('Role not found'),
+        412: error('The role has changed since the given ETag'),
+        ...forbidden('roles:delete, or admin for a role that grants admin'),
+        ...limitedResponses,
+      },
+    },
+  },
+  '/roles/{id}/users': {
+    get: {
+      operationId: 'listRoleUsers',
+      summary: 'List the users with a role',
+      tags: ['Roles'],
+      parameters: [idParameter, ...userListParameters.filter(({ name }) => name !== 'roleId'), expandParameter],
+      security: apiKeySecurity,
+      responses: {
+        200: json('A page of users', ref('PagedUsers')),
+        400: error('Invalid parameters'),
+        404: error('Role not found'),
+        ...forbidden('roles:read and users:read'),
+        ...limitedResponses,
+      },
+    },
+  },
+  '/roles/{id}/restore': {
+    post: {
+      operationId: 'restoreRole',
+      summary: 'Restore a deleted role and move its former users back to it',
+      tags: ['Roles'],
+      parameters: [idParameter, ifMatchParameter],
+      security: apiKeySecurity,
+      responses: {
+        200: entity('The restored role', ref('Role')),
+        400: error('The role is not deleted, or its name is in use'),
+        404: error('Role not found'),
+        412: error('The role has changed since the given ETag'),
+        ...forbidden('roles:delete, or admin for a role that grants admin'),
+        ...limitedResponses,
+      },
+    },
+  },
+  '/permissions': {
+    get: {
+      operationId: 'listPermissions',
+      summary: 'List the permissions roles can grant',
+      tags: ['Roles'],
+      responses: { 200: json('The permission catalog', arrayOf(ref('Permission'))), ...limitedResponses },
+    },
+  },
+}
+
+const otherPaths: OpenApiDocument['paths'] = {
+  '/audit-events': {
+    get: {
+      operationId: 'listAuditEvents',
+      summary: 'List changes to users and roles',
+      tags: ['Audit'],
+      parameters: [
+        ...listParameters(['entityType', 'action', 'createdAt', 'relevance']),
+        queryList('entityType', 'Only include events for these entity types.'),
+        queryList('entityId', 'Only include events for these entities.'),
+        queryList('action', 'Only include events with these actions.'),
+        query('since', 'Only include events at or after this time', dateTime),
+        query('until', 'Only include events before this time', dateTime),
+      ],
+      security: apiKeySecurity,
+      responses: {
+        200: json('A page of audit events', ref('PagedAuditEvents')),
+        400: error('Invalid parameters'),
+        ...forbidden('audit:read'),
+        ...limitedResponses,
+      },
+    },
+  },
+  '/events': {
+    get: {
+      operationId: 'streamChanges',
+      summary: 'Stream changes to users and roles as Server-Sent Events',
+      tags: ['Audit'],
+      parameters: [
+        query('lastEventId', 'Resume after this event, like the `Last-Event-ID` header'),
+        { name: 'Last-Event-ID', in: 'header', description: 'Resume after this event', schema: string },
+      ],
+      security: apiKeySecurity,
+      responses: {
+        200: {
+          description: 'Events named after the change, such as `user.updated`, with the changed entity as data',
+          content: { 'text/event-stream': { schema: string } },
+        },
+        401: error('Invalid API key, or none for a request that needs one'),
+        ...forbidden('users:read and roles:read'),
+      },
+    },
+  },
+  '/openapi.json': {
+    get: {
+      operationId: 'getOpenApiDocument',
+      summary: 'Get this document',
+      tags: ['Meta'],
+      responses: { 200: json('The OpenAPI document', { type: 'object' }) },
+    },
+  },
+}
+
+const organizationPaths: OpenApiDocument['paths'] = {
+  '/organizations': {
+    get: {
+      operationId: 'listOrganizations',
+      summary: 'List the organizations the caller can see',
+      tags: ['Organizations'],
+      parameters: listParameters(['name', 'createdAt', 'updatedAt', 'relevance']),
+      responses: {
+        200: json('A page of organizations', ref('PagedOrganizations')),
+        400: error('Invalid parameters'),
+        ...limitedResponses,
+      },
+    },
+  },
+  '/organizations/{orgId}': {
+    get: {
+      operationId: 'getOrganization',
+      summary: 'Get an organization',
+      tags: ['Organizations'],
+      parameters: [orgIdParameter],
+      responses: {
+        200: json('The organization', ref('Organization')),
+        404: error('Organization not found'),
+        ...limitedResponses,
+      },
+    },
+  },
+}
+
+// Users, roles and their history are also served under the organization they belong to, while the routes without
+// one act on the organization of the API key, or the default organization
+const scopedPaths: OpenApiDocument['paths'] = Object.fromEntries(
+  Object.entries({ ...userPaths, ...rolePaths, ...otherPaths })
+    .filter(([path]) => !['/permissions', '/openapi.json'].includes(path))
+    .map(([path, operations]) => [
+      `/organizations/{orgId}${path}`,
+      Object.fromEntries(
+        Object.entries(operations).map(([method, operation]) => [
+          method,
+          {
+            ...operation,
+            operationId: `${operation.operationId}InOrganization`,
+            parameters: [orgIdParameter, ...(operation.parameters ?? [])],
+            responses: {
+              403: error('The API key belongs to another organization'),
+              404: error('Organization not found'),
+              ...operation.responses,
+              401: error('Invalid API key, or none for a request or an organization that needs one'),
+            },
+          },
+        ])
+      ),
+    ])
+)
+
+const adminPaths: OpenApiDocument['paths'] = {
+  '/admin/reset': {
+    post: {
+      operationId: 'resetData',
+      summary: 'Restore the seed data',
+      tags: ['Admin'],
+      responses: { 200: json('The data was reset', object({ message: string })), ...defaultResponse },
+    },
+  },
+  '/admin/purge': {
+    post: {
+      operationId: 'purgeDeleted',
+      summary: 'Purge deleted records past the retention period now',
+      tags: ['Admin'],
+      responses: { 200: json('The ids of the purged records', ref('PurgeResult')), ...defaultResponse },
+    },
+  },
+  '/admin/snapshots': {
+    get: {
+      operationId: 'listSnapshots',
+      summary: 'List saved snapshots',
+      tags: ['Admin'],
+      responses: { 200: json('The saved snapshots', arrayOf(ref('Snapshot'))), ...defaultResponse },
+    },
+    post: {
+      operationId: 'saveSnapshot',
+      summary: 'Save the current data under a name, replacing any snapshot with that name',
+      tags: ['Admin'],
+      requestBody: jsonBody(toJsonSchema(snapshotSchema, ['name'])),
+      responses: {
+        200: json('The saved snapshot', ref('Snapshot')),
+        400: error('Missing name'),
+        422: error('Invalid fields'),
+        ...defaultResponse,
+      },
+    },
+  },
+  '/admin/snapshots/{name}/restore': {
+    post: {
+      operationId: 'restoreSnapshot',
+      summary: 'Replace the current data with a snapshot',
+      tags: ['Admin'],
+      parameters: [path('name', 'The name of the snapshot')],
+      responses: {
+        200: json('The restored snapshot', ref('Snapshot')),
+        404: error('Snapshot not found'),
+        ...defaultResponse,
+      },
+    },
+  },
+  '/admin/snapshots/{name}': {
+    delete: {
+      operationId: 'deleteSnapshot',
+      summary: 'Delete a snapshot',
+      tags: ['Admin'],
+      parameters: [path('name', 'The name of the snapshot')],
+      responses: {
+        200: json('The deleted snapshot', ref('Snapshot')),
+        404: error('Snapshot not found'),
+        ...defaultResponse,
+      },
+    },
+  },
+  '/admin/chaos': {
+    get: {
+      operationId: 'listChaosProfiles',
+      summary: 'List fault-injection profiles',
+      tags: ['Admin'],
+      responses: { 200: json('The profiles', arrayOf(ref('ChaosProfile'))), ...defaultResponse },
+    },
+    post: {
+      operationId: 'addChaosProfile',
+      summary: 'Add a fault-injection profile, which wins over the ones added before it',
+      tags: ['Admin'],
+      requestBody: jsonBody(toJsonSchema(chaosProfileSchema)),
+      responses: {
+        200: json('The new profile', ref('ChaosProfile')),
+        422: error('Invalid fields'),
+        ...defaultResponse,
+      },
+    },
+    delete: {
+      operationId: 'clearChaosProfiles',
+      summary: 'Remove every fault-injection profile',
+      tags: ['Admin'],
+      responses: {
+        200: json('The remaining profiles, which is none', arrayOf(ref('ChaosProfile'))),
+        ...defaultResponse,
+      },
+    },
+  },
+  '/admin/chaos/{id}': {
+    delete: {
+      operationId: 'removeChaosProfile',
+      summary: 'Remove a fault-injection profile',
+      tags: ['Admin'],
+      parameters: [idParameter],
+      responses: {
+        200: json('The removed profile', ref('ChaosProfile')),
+        404: error('Chaos profile not found'),
+        ...defaultResponse,
+      },
+    },
+  },
+}
+
+// With authentication on, admin routes also need an API key that grants admin
+function requireAdmin(paths: OpenApiDocument['paths']): OpenApiDocument['paths'] {
+  return Object.fromEntries(
+    Object.entries(paths).map(([path, operations]) => [
+      path,
+      Object.fromEntries(
+        Object.entries(operations).map(([method, operation]) => [
+          method,
+          {
+            ...operation,
+            security: apiKeySecurity,
+            responses: {
+              401: error('Invalid API key, or none'),
+              ...forbidden('admin'),
+              ...operation.responses,
+            },
+          },
+        ])
+      ),
+    ])
+  )
+}
+
+export const openApiDocument: OpenApiDocument = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Users and Roles API',
+    version: '0.0.0',
+    description:
+      'Any request may be delayed or fail, as configured by the server speed, fault-injection profiles ' +
+      'and the `X-Chaos-*` headers. Admin routes answer 404 unless they are enabled. ' +
+      'A JSON body that is malformed, or not an object or array, answers 400.',
+  },
+  tags: [
+    { name: 'Organizations', description: 'The customers that users and roles belong to' },
+    { name: 'Users', description: 'Users and their lifecycle' },
+    { name: 'Roles', description: 'Roles and the permissions they grant' },
+    { name: 'Audit', description: 'The history of changes' },
+    { name: 'Admin', description: 'Test data and fault injection' },
+    { name: 'Meta', description: 'This document' },
+  ],
+  paths: {
+    ...organizationPaths,
+    ...userPaths,
+    ...rolePaths,
+    ...otherPaths,
+    ...scopedPaths,
+    ...requireAdmin(adminPaths),
+  },
+  components: {
+    schemas,
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer' },
+      apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+    },
+  },
+}
+
+// ----------
+// Validation
+// ----------
+
+function resolve(schema: JsonSchema): JsonSchema {
+  return schema.$ref ? resolve(schemas[schema.$ref.replace('#/components/schemas/', '')]) : schema
+}
+
+function typeOf(value: unknown) {
+  if (value === null) {
+    return 'null'
+  }
+
+  if (Array.isArray(value)) {
+    return 'array'
+  }
+
+  return Number.isInteger(value) ? 'integer' : typeof value
+}
+
+/** Checks a value against a schema, returning a message for each mismatch. */
+export function checkSchema(schema: JsonSchema, value: unknown, at = 'body'): string[] {
+  schema = resolve(schema)
+  if (schema.oneOf) {
+    const matching = schema.oneOf.filter((option) => !checkSchema(option, value, at).length)
+    return matching.length === 1 ? [] : [`${at} must match exactly one of its schemas, but matches ${matching.length}`]
+  }
+
+  const type = typeOf(value)
+  if (type === 'null') {
+    // A schema without a type, such as the values in an audit change, accepts anything
+    return schema.nullable || !schema.type ? [] : [`${at} must not be null`]
+  }
+
+  if (schema.type && schema.type !== type && !(schema.type === 'number' && type === 'integer')) {
+    return [`${at} must be of type ${schema.type}, not ${type}`]
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${at} must be one of: ${schema.enum.join(', ')}`]
+  }
+
+  if (schema.format === 'date-time' && Number.isNaN(Date.parse(value as string))) {
+    return [`${at} must be a date-time`]
+  }
+
+  if (type === 'array') {
+    const items = value as unknown[]
+    const errors = items.flatMap((item, index) =>
+      schema.items ? checkSchema(schema.items, item, `${at}[${index}]`) : []
+    )
+    if (schema.minItems !== undefined && items.length < schema.minItems) {
+      errors.push(`${at} must have at least ${schema.minItems} items`)
+    }
+    if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+      errors.push(`${at} must have at most ${schema.maxItems} items`)
+    }
+    return errors
+  }
+
+  if (type === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+    const errors = (schema.required ?? [])
+      .filter((key) => !(key in (value as object)))
+      .map((key) => `${at}.${key} is required`)
+    for (const [key, item] of entries) {
+      const property = schema.properties?.[key]
+      if (property) {
+        errors.push(...checkSchema(property, item, `${at}.${key}`))
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}.${key} is not documented`)
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...checkSchema(schema.additionalProperties, item, `${at}.${key}`))
+      }
+    }
+    return errors
+  }
+
+  return []
+}
+
+/** Finds the documented operation for a request, preferring literal path segments over parameters. */
+function findOperation(method: string, pathname: string): Operation | undefined {
+  const segments = pathname.split('/').filter(Boolean)
+  const candidates = Object.entries(openApiDocument.paths)
+    .map(([template, operations]) => ({ parts: template.split('/').filter(Boolean), operations }))
+    .filter(
+      ({ parts }) =>
+        parts.length === segments.length &&
+        parts.every((part, i) => part.startsWith('{') || decodeURIComponent(segments[i]) === part)
+    )
+    .sort(
+      (a, b) =>
+        a.parts.filter((part) => part.startsWith('{')).length - b.parts.filter((part) => part.startsWith('{')).length
+    )
+  return candidates[0]?.operations[method.toLowerCase() as 'get' | 'post' | 'patch' | 'delete']
+}
+
+/**
+ * Checks a response against the documented responses of its operation, returning a message for each
+ * mismatch. Bodies are only checked for JSON responses.
+ */
+export function checkResponse(
+  method: string,
+  pathname: string,
+  status: number,
+  contentType: string | null,
+  body: string
+): string[] {
+  const operation = findOperation(method, pathname)
+  if (!operation) {
+    return [`${method} ${pathname} is not documented`]
+  }
+
+  const response = operation.responses[status] ?? operation.responses.default
+  if (!response) {
+    return [`${method} ${pathname} does not document a ${status} response`]
+  }
+
+  const mediaType = contentType?.split(';')[0].trim() ?? ''
+  const content = response.content?.[mediaType]
+  if (!content) {
+    return [`${method} ${pathname} does not document a ${status} response of type ${mediaType || 'none'}`]
+  }
+
+  if (mediaType !== 'application/json') {
+    return []
+  }
+
+  return checkSchema(content.schema, JSON.parse(body)).map((error) => `${method} ${pathname} ${status}: ${error}`)
+}
@@ -0,0 +1,38 @@
+import type { Permission } from './models'
+
+export const permissionCatalog: Permission[] = [
+  { name: 'users:read', description: 'View users', implies: [] },
+  { name: 'users:write', description: 'Create users and edit their details and roles', implies: ['users:read'] },
+  { name: 'users:delete', description: 'Delete and restore users', implies: ['users:read'] },
+  { name: 'roles:read', description: 'View roles and their permissions', implies: [] },
+  { name: 'roles:write', description: 'Create roles and edit their details and permissions', implies: ['roles:read'] },
+  { name: 'roles:delete', description: 'Delete and restore roles', implies: ['roles:read'] },
+  { name: 'audit:read', description: 'View the audit log', implies: [] },
+  {
+    name: 'admin',
+    description: 'Do everything, including choosing the default role',
+    implies: ['users:write', 'users:delete', 'roles:write', 'roles:delete', 'audit:read'],
+  },
+]
+
+export const permissionNames = permissionCatalog.map(({ name }) => name)
+
+/** Puts permissions in catalog order and drops duplicates, so equal sets always compare equal. */
+export function sortPermissions(names: string[]): string[] {
+  return permissionNames.filter((name) => names.includes(name))
+}
+
+/** Expands granted permissions with everything they imply. */
+export function getEffectivePermissions(granted: string[]): string[] {
+  const effective = new Set<string>()
+  const pending = [...granted]
+  while (pending.length) {
+    const name = pending.pop() as string
+    if (!effective.has(name)) {
+      effective.add(name)
+      pending.push(...(permissionCatalog.find((permission) => permission.name === name)?.implies ?? []))
+    }
+  }
+
+  return sortPermissions([...effective])
+}
@@ -0,0 +1,32 @@
+import { test, it } from 'node:test'
+import assert from 'node:assert'
+import { createRandom } from './random'
+
+await test('Random', async () => {
+  await it('returns the same sequence for the same seed', async () => {
+    const a = createRandom(42)
+    const b = createRandom(42)
+
+    assert.deepStrictEqual(
+      Array.from({ length: 5 }, () => a.next()),
+      Array.from({ length: 5 }, () => b.next())
+    )
+    assert.strictEqual(a.uuid(), b.uuid())
+  })
+
+  await it('returns different sequences for different seeds', async () => {
+    assert.notStrictEqual(createRandom(1).next(), createRandom(2).next())
+  })
+
+  await it('returns integers in the given range', async () => {
+    const random = createRandom(7)
+    for (let i = 0; i < 100; i++) {
+      const value = random.int(500, 1000)
+      assert.ok(Number.isInteger(value) && value >= 500 && value < 1000)
+    }
+  })
+
+  await it('returns version 4 UUIDs', async () => {
+    assert.match(createRandom(3).uuid(), /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+  })
+})
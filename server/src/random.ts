@@ -0,0 +1,44 @@
+export interface Random {
+  /** Returns a number in [0, 1), like `Math.random()`. */
+  next(): number
+  /** Returns an integer in [min, max). */
+  int(min: number, max: number): number
+  uuid(): string
+}
+
+/**
+ * Creates a random number generator whose sequence is fully determined by `seed`, so that a run can be
+ * replayed by starting again with the same seed. Uses the mulberry32 algorithm.
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0
+
+  function next() {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  function int(min: number, max: number) {
+    return Math.floor(next() * (max - min)) + min
+  }
+
+  return {
+    next,
+    int,
+    uuid() {
+      const bytes = Array.from({ length: 16 }, () => int(0, 256))
+      // Mark the bytes as a version 4, variant 1 UUID
+      bytes[6] = (bytes[6] & 0x0f) | 0x40
+      bytes[8] = (bytes[8] & 0x3f) | 0x80
+      const hex = bytes.map((byte) => byte.toString(16).padStart(2, '0')).join('')
+      return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+    },
+  }
+}
+
+export function createSeed() {
+  return Math.floor(Math.random() * 2 ** 32)
+}
@@ -0,0 +1,155 @@
+import { test, it, afterEach } from 'node:test'
+import assert from 'node:assert'
+import { startServer } from './api'
+import { testConfig } from './test-config'
+import { createClient } from './client'
+import { createRateLimiter } from './rate-limit'
+
+const budget = { capacity: 2, refillPerSecond: 1 }
+
+await test('Rate limiter', async () => {
+  await it('allows bursts up to the capacity', async () => {
+    const limiter = createRateLimiter()
+    const results = [0, 0, 0].map(() => limiter.take('a', budget, 0))
+
+    assert.deepStrictEqual(
+      results.map(({ allowed, remaining }) => ({ allowed, remaining })),
+      [
+        { allowed: true, remaining: 1 },
+        { allowed: true, remaining: 0 },
+        { allowed: false, remaining: 0 },
+      ]
+    )
+    assert.strictEqual(results[2].retryAfter, 1)
+    assert.strictEqual(results[2].reset, 2)
+  })
+
+  await it('refills over time, up to the capacity', async () => {
+    const limiter = createRateLimiter()
+    limiter.take('a', budget, 0)
+    limiter.take('a', budget, 0)
+
+    assert.strictEqual(limiter.take('a', budget, 500).allowed, false)
+    assert.strictEqual(limiter.take('a', budget, 1000).allowed, true)
+    assert.strictEqual(limiter.take('a', budget, 60000).remaining, 1)
+  })
+
+  await it('keeps a separate budget for each key', async () => {
+    const limiter = createRateLimiter()
+    limiter.take('a', budget, 0)
+    limiter.take('a', budget, 0)
+
+    assert.strictEqual(limiter.take('b', budget, 0).allowed, true)
+  })
+})
+
+const config = {
+  ...testConfig,
+  port: 3008,
+  rateLimit: {
+    enabled: true,
+    reads: { capacity: 3, refillPerSecond: 1 },
+    writes: { capacity: 1, refillPerSecond: 5 },
+  },
+}
+
+const endpoints = {
+  users: 'http://localhost:3008/users',
+  admin: 'http://localhost:3008/admin',
+}
+
+const server = await startServer(config)
+
+await test('Rate limiting', async () => {
+  afterEach(() => server.reset())
+
+  await it('returns 429 with Retry-After once the budget is spent', async () => {
+    const responses = []
+    for (let i = 0; i < 4; i++) {
+      responses.push(await fetch(endpoints.users))
+    }
+
+    assert.deepStrictEqual(
+      responses.map(({ status }) => status),
+      [200, 200, 200, 429]
+    )
+    assert.deepStrictEqual(
+      responses.map(({ headers }) => headers.get('ratelimit-remaining')),
+      ['2', '1', '0', '0']
+    )
+    assert.strictEqual(responses[0].headers.get('ratelimit-limit'), '3')
+    assert.strictEqual(responses[0].headers.get('ratelimit-policy'), '3;w=3')
+    assert.strictEqual(responses[3].headers.get('retry-after'), '1')
+
+    const message = await responses[3].json()
+    assert.strictEqual(message.message, 'Rate limit exceeded')
+  })
+
+  await it('keeps separate budgets for reads and writes', async () => {
+    const write = () => fetch(endpoints.users + '/not-a-user', { method: 'DELETE' })
+
+    assert.strictEqual((await write()).status, 404)
+    assert.strictEqual((await write()).status, 429)
+    assert.strictEqual((await fetch(endpoints.users)).status, 200)
+  })
+
+  await it('does not let callers without an API key choose their budget', async () => {
+    const write = (actor: string) =>
+      fetch(endpoints.users + '/not-a-user', { method: 'DELETE', headers: { 'x-actor': actor } })
+
+    assert.strictEqual((await write('alice')).status, 404)
+    assert.strictEqual((await write('bob')).status, 429)
+  })
+
+  await it('does not limit admin routes', async () => {
+    for (let i = 0; i < 3; i++) {
+      assert.strictEqual((await fetch(endpoints.admin + '/chaos')).status, 200)
+      assert.strictEqual((await fetch(endpoints.admin + '/chaos', { method: 'DELETE' })).status, 200)
+    }
+  })
+
+  await it('lets the client wait for the budget to refill', async () => {
+    const client = createClient({ baseUrl: 'http://localhost:3008', retryDelay: 10, maxRetryDelay: 250 })
+    const ids = ['not-a-user', 'also-not-a-user']
+    const results = await Promise.allSettled(ids.map((id) => client.users.suspend(id)))
+
+    assert.deepStrictEqual(
+      results.map((result) => result.status === 'rejected' && result.reason.kind),
+      ['userNotFound', 'userNotFound']
+    )
+  })
+})
+
+server.stop()
+
+// A server of its own, since authentication is set when the server starts
+const authServer = await startServer({ ...config, port: 3010, enableAuth: true })
+
+await test('Rate limiting with authentication', async () => {
+  afterEach(() => authServer.reset())
+
+  const read = (key: string) => fetch('http://localhost:3010/users', { headers: { authorization: `Bearer ${key}` } })
+
+  await it('keeps a separate budget for each API key', async () => {
+    for (let i = 0; i < 3; i++) {
+      assert.strictEqual((await read('dev-admin-key')).status, 200)
+    }
+
+    assert.strictEqual((await read('dev-admin-key')).status, 429)
+    assert.strictEqual((await read('dev-viewer-key')).status, 200)
+  })
+
+  await it('throttles invalid API keys by address before rejecting them', async () => {
+    const responses = []
+    for (let i = 0; i < 4; i++) {
+      responses.push(await read(`not-a-key-${i}`))
+    }
+
+    assert.deepStrictEqual(
+      responses.map(({ status }) => status),
+      [401, 401, 401, 429]
+    )
+  })
+})
+
+authServer.stop()
@@ -0,0 +1,79 @@
+export interface RateLimitBudget {
+  /** The most requests that can be made in a burst. */
+  capacity: number
+  /** How many requests are added back to the budget each second, up to its capacity. */
+  refillPerSecond: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  /** Seconds until the budget is back to full capacity. */
+  reset: number
+  /** Seconds until the next request would be allowed, or 0 if it already would be. */
+  retryAfter: number
+}
+
+export interface RateLimiter {
+  /** Spends one request from the budget kept under the key, if there is one left. */
+  take(key: string, budget: RateLimitBudget, now?: number): RateLimitResult
+  clear(): void
+}
+
+interface Bucket {
+  tokens: number
+  updatedAt: number
+  budget: RateLimitBudget
+}
+
+// Buckets that have refilled completely are no different from new ones, so they are dropped once
+// there are this many, to keep a stream of one-off clients from growing the map without bound
+const maxBuckets = 10000
+
+function refill(bucket: Bucket, now: number): number {
+  const { capacity, refillPerSecond } = bucket.budget
+  const elapsed = Math.max(0, now - bucket.updatedAt) / 1000
+  return Math.min(capacity, bucket.tokens + elapsed * refillPerSecond)
+}
+
+export function createRateLimiter(): RateLimiter {
+  const buckets = new Map<string, Bucket>()
+
+  function sweep(now: number) {
+    for (const [key, bucket] of buckets) {
+      if (refill(bucket, now) >= bucket.budget.capacity) {
+        buckets.delete(key)
+      }
+    }
+  }
+
+  return {
+    take(key, budget, now = Date.now()) {
+      if (!buckets.has(key) && buckets.size >= maxBuckets) {
+        sweep(now)
+      }
+
+      const bucket = buckets.get(key) ?? { tokens: budget.capacity, updatedAt: now, budget }
+      // The budget is taken from the caller each time, so a change of configuration applies straight away
+      bucket.budget = budget
+      const tokens = refill(bucket, now)
+      const allowed = tokens >= 1
+      bucket.tokens = allowed ? tokens - 1 : tokens
+      bucket.updatedAt = now
+      buckets.set(key, bucket)
+
+      const secondsUntil = (target: number) => Math.ceil(Math.max(0, target - bucket.tokens) / budget.refillPerSecond)
+      return {
+        allowed,
+        limit: budget.capacity,
+        remaining: Math.floor(bucket.tokens),
+        reset: secondsUntil(budget.capacity),
+        retryAfter: allowed ? 0 : secondsUntil(1),
+      }
+    },
+    clear() {
+      buckets.clear()
+    },
+  }
+}
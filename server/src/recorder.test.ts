@@ -0,0 +1,80 @@
+import { test, it } from 'node:test'
+import assert from 'node:assert'
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { startServer } from './api'
+import { testConfig } from './test-config'
+
+const dir = mkdtempSync(join(tmpdir(), 'recorder-'))
+const fixturePath = join(dir, 'fixture.json')
+
+const config = { ...testConfig, port: 3004 }
+
+const userUrl = '/users/c7deb881-1939-4208-9a63-61a885f02d8f'
+const importUrl = '/users/import?dryRun=true'
+const csv = 'first,last,email,role\nAda,Lovelace,ada@example.com,Engineering\n'
+
+async function runSession(port: number) {
+  const responses = []
+  const requests: [string, RequestInit?][] = [
+    ['/users?page=2'],
+    [userUrl, { method: 'PATCH', headers: { 'content-type': 'application/json' }, body: '{"first":"Max"}' }],
+    [userUrl, { headers: { 'x-chaos-error-status': '500' } }],
+    [userUrl],
+    [importUrl, { method: 'POST', headers: { 'content-type': 'text/csv' }, body: csv }],
+  ]
+  for (const [path, init] of requests) {
+    const response = await fetch(`http://localhost:${port}${path}`, init)
+    responses.push({ status: response.status, etag: response.headers.get('etag'), body: await response.text() })
+  }
+
+  return responses
+}
+
+await test('Record and replay', async () => {
+  const recording = await startServer({ ...config, recordTo: fixturePath })
+  const recorded = await runSession(3004)
+  recording.stop()
+
+  await it('records every request and response to the fixture', async () => {
+    const fixture = JSON.parse(readFileSync(fixturePath, 'utf8'))
+    const { entries } = fixture.log
+
+    assert.strictEqual(entries.length, 5)
+    assert.strictEqual(entries[1].request.method, 'PATCH')
+    assert.strictEqual(entries[1].request.postData.text, '{"first":"Max"}')
+    assert.deepStrictEqual(entries[4].request.postData, { mimeType: 'text/csv', text: csv })
+    assert.strictEqual(entries[2].response.status, 500)
+    assert.strictEqual(typeof entries[0].time, 'number')
+  })
+
+  const replaying = await startServer({ ...config, port: 3005, replayFrom: fixturePath })
+
+  await it('answers the same requests with the recorded responses', async () => {
+    const replayed = await runSession(3005)
+
+    assert.deepStrictEqual(replayed, recorded)
+  })
+
+  await it('reports requests without a recorded response', async () => {
+    const response = await fetch('http://localhost:3005/roles')
+    const otherCsv = csv.replace('Ada', 'Augusta')
+    const importResponse = await fetch('http://localhost:3005' + importUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'text/csv' },
+      body: otherCsv,
+    })
+
+    assert.strictEqual(response.status, 501)
+    assert.strictEqual(importResponse.status, 501)
+    assert.deepStrictEqual(replaying.unmatched(), [
+      { method: 'GET', url: '/roles' },
+      { method: 'POST', url: importUrl, body: otherCsv },
+    ])
+  })
+
+  replaying.stop()
+})
+
+rmSync(dir, { recursive: true })
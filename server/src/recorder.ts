@@ -0,0 +1,174 @@
+import { readFileSync } from 'node:fs'
+import type express from 'express'
+import { writeFileAtomic } from './store'
+
+interface Header {
+  name: string
+  value: string
+}
+
+/** A single request and its response, in a subset of the HAR 1.2 entry format. */
+export interface FixtureEntry {
+  startedDateTime: string
+  /** Total time in ms between receiving the request and finishing the response, including simulated latency. */
+  time: number
+  request: {
+    method: string
+    url: string
+    headers: Header[]
+    postData?: { mimeType: string; text: string }
+  }
+  response: {
+    /** 0 when the connection was closed without a response, as for dropped connections and timeouts. */
+    status: number
+    headers: Header[]
+    content: { mimeType: string; text: string }
+  }
+}
+
+export interface Fixture {
+  log: {
+    version: string
+    creator: { name: string; version: string }
+    entries: FixtureEntry[]
+  }
+}
+
+export interface UnmatchedRequest {
+  method: string
+  url: string
+  body?: string
+}
+
+export interface Recorder {
+  handle(req: express.Request, res: express.Response, next: express.NextFunction): void
+}
+
+export interface Replayer {
+  /** Answers the request from the fixture, returning false if no recorded response matched it. */
+  handle(req: express.Request, res: express.Response): boolean
+  /** Requests that had no recorded response, in the order they were received. */
+  unmatched(): UnmatchedRequest[]
+}
+
+const recordedResponseHeaders = ['content-type', 'etag', 'retry-after']
+
+function getPostData(req: express.Request): FixtureEntry['request']['postData'] {
+  if (req.is('json')) {
+    return { mimeType: 'application/json', text: JSON.stringify(req.body) }
+  }
+
+  // Text bodies, such as CSV imports, are only parsed by the server while recording or replaying
+  if (req.is('text/*') && typeof req.body === 'string') {
+    return { mimeType: req.get('content-type') as string, text: req.body }
+  }
+
+  return undefined
+}
+
+function createFixture(entries: FixtureEntry[]): Fixture {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: '@workos/frontend-take-home-server', version: '0.0.0' },
+      entries,
+    },
+  }
+}
+
+export function createRecorder(path: string): Recorder {
+  const entries: FixtureEntry[] = []
+  writeFileAtomic(path, JSON.stringify(createFixture(entries), null, 2))
+
+  return {
+    handle(req, res, next) {
+      const started = new Date()
+      const chunks: Buffer[] = []
+      const { write, end } = res
+
+      // Capture the body as it is written, while still passing it through to the client
+      res.write = ((chunk: any, ...args: any[]) => {
+        if (chunk) {
+          chunks.push(Buffer.from(chunk))
+        }
+        return (write as (...args: any[]) => boolean).apply(res, [chunk, ...args])
+      }) as typeof res.write
+      res.end = ((chunk?: any, ...args: any[]) => {
+        if (chunk && typeof chunk !== 'function') {
+          chunks.push(Buffer.from(chunk))
+        }
+        return (end as (...args: any[]) => express.Response).apply(res, [chunk, ...args])
+      }) as typeof res.end
+
+      res.on('close', () => {
+        const postData = getPostData(req)
+        const mimeType = (res.get('content-type') as string) ?? ''
+        entries.push({
+          startedDateTime: started.toISOString(),
+          time: Date.now() - started.getTime(),
+          request: {
+            method: req.method,
+            url: req.originalUrl,
+            headers: [],
+            ...(postData && { postData }),
+          },
+          response: {
+            status: res.writableFinished ? res.statusCode : 0,
+            headers: recordedResponseHeaders
+              .filter((name) => res.get(name) !== undefined)
+              .map((name) => ({ name, value: String(res.get(name)) })),
+            content: { mimeType, text: Buffer.concat(chunks).toString() },
+          },
+        })
+        writeFileAtomic(path, JSON.stringify(createFixture(entries), null, 2))
+      })
+
+      next()
+    },
+  }
+}
+
+export function createReplayer(path: string): Replayer {
+  const fixture = JSON.parse(readFileSync(path, 'utf8')) as Fixture
+  const used = new Set<FixtureEntry>()
+  const unmatched: UnmatchedRequest[] = []
+
+  return {
+    handle(req, res) {
+      const body = getPostData(req)?.text
+      // Identical requests are answered with their recorded responses in turn, so a retry after a
+      // recorded failure gets whatever the retry got during recording
+      const entry = fixture.log.entries.find(
+        (entry) =>
+          !used.has(entry) &&
+          entry.request.method === req.method &&
+          entry.request.url === req.originalUrl &&
+          entry.request.postData?.text === body
+      )
+
+      if (!entry) {
+        unmatched.push({ method: req.method, url: req.originalUrl, ...(body !== undefined && { body }) })
+        res.status(501).json({ message: 'No recorded response matches this request' })
+        return false
+      }
+
+      used.add(entry)
+      setTimeout(() => {
+        const { status, headers, content } = entry.response
+        if (!status) {
+          res.socket?.destroy()
+          return
+        }
+
+        for (const { name, value } of headers) {
+          res.set(name, value)
+        }
+        res.status(status).send(content.text)
+      }, entry.time)
+      return true
+    },
+    unmatched() {
+      return [...unmatched]
+    },
+  }
+}
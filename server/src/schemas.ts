@@ -0,0 +1,258 @@
+import { permissionNames } from './permissions'
+
+import type { ChaosProfile, Role, Snapshot, User } from './models'
+
+interface StringField {
+  type: 'string'
+  trim?: boolean
+  minLength?: number
+  maxLength?: number
+  enum?: string[]
+  format?: 'email'
+}
+
+interface NumberField {
+  type: 'number'
+  integer?: boolean
+  min?: number
+  max?: number
+}
+
+interface BooleanField {
+  type: 'boolean'
+}
+
+interface ArrayField {
+  type: 'array'
+  items: StringField
+  unique?: boolean
+}
+
+type Field = StringField | NumberField | BooleanField | ArrayField
+
+/** Describes the client-writable fields of a model. Fields not listed here are rejected. */
+export type Schema<T> = {
+  [K in keyof T]?: NonNullable<T[K]> extends string
+    ? StringField
+    : NonNullable<T[K]> extends number
+      ? NumberField
+      : NonNullable<T[K]> extends boolean
+        ? BooleanField
+        : NonNullable<T[K]> extends string[]
+          ? ArrayField
+          : never
+}
+
+/** The subset of JSON Schema, as used by OpenAPI 3.0, that the API documents itself with. */
+export interface JsonSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object'
+  description?: string
+  format?: string
+  nullable?: boolean
+  enum?: unknown[]
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  items?: JsonSchema
+  minItems?: number
+  maxItems?: number
+  uniqueItems?: boolean
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  oneOf?: JsonSchema[]
+  $ref?: string
+}
+
+export interface FieldError {
+  field: string
+  message: string
+}
+
+export const userSchema: Schema<User> = {
+  first: { type: 'string', trim: true, minLength: 1, maxLength: 100 },
+  last: { type: 'string', trim: true, minLength: 1, maxLength: 100 },
+  email: { type: 'string', trim: true, maxLength: 254, format: 'email' },
+  roleId: { type: 'string', trim: true, minLength: 1, maxLength: 100 },
+}
+
+export const roleSchema: Schema<Role> = {
+  name: { type: 'string', trim: true, minLength: 1, maxLength: 100 },
+  description: { type: 'string', trim: true, maxLength: 500 },
+  isDefault: { type: 'boolean' },
+  permissions: { type: 'array', items: { type: 'string', enum: permissionNames }, unique: true },
+}
+
+export const chaosProfileSchema: Schema<ChaosProfile> = {
+  method: { type: 'string', trim: true, enum: ['*', 'GET', 'POST', 'PATCH', 'PUT', 'DELETE'] },
+  path: { type: 'string', trim: true, minLength: 1, maxLength: 200 },
+  minLatency: { type: 'number', integer: true, min: 0, max: 60000 },
+  maxLatency: { type: 'number', integer: true, min: 0, max: 60000 },
+  errorRate: { type: 'number', min: 0, max: 1 },
+  errorStatus: { type: 'number', integer: true, min: 400, max: 599 },
+  failure: { type: 'string', enum: ['error', 'timeout', 'drop', 'malformed'] },
+}
+
+export const snapshotSchema: Schema<Snapshot> = {
+  name: { type: 'string', trim: true, minLength: 1, maxLength: 100 },
+}
+
+// Deliberately loose: anything with a local part, an @ and a dotted domain
+const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function validateNumber(field: NumberField, value: unknown): { value: unknown; message?: string } {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return { value, message: 'must be a number' }
+  }
+
+  if (field.integer && !Number.isInteger(value)) {
+    return { value, message: 'must be an integer' }
+  }
+
+  if (field.min !== undefined && value < field.min) {
+    return { value, message: `must be at least ${field.min}` }
+  }
+
+  if (field.max !== undefined && value > field.max) {
+    return { value, message: `must be at most ${field.max}` }
+  }
+
+  return { value }
+}
+
+function validateArray(field: ArrayField, value: unknown): { value: unknown; message?: string } {
+  if (!Array.isArray(value)) {
+    return { value, message: 'must be an array' }
+  }
+
+  const items: unknown[] = []
+  for (const item of value) {
+    const result = validateField(field.items, item)
+    if (result.message) {
+      return { value, message: `items ${result.message}` }
+    }
+
+    items.push(result.value)
+  }
+
+  if (field.unique && new Set(items).size !== items.length) {
+    return { value, message: 'must not contain duplicates' }
+  }
+
+  return { value: items }
+}
+
+function validateField(field: Field, value: unknown): { value: unknown; message?: string } {
+  if (field.type === 'array') {
+    return validateArray(field, value)
+  }
+
+  if (field.type === 'boolean') {
+    return typeof value === 'boolean' ? { value } : { value, message: 'must be a boolean' }
+  }
+
+  if (field.type === 'number') {
+    return validateNumber(field, value)
+  }
+
+  if (typeof value !== 'string') {
+    return { value, message: 'must be a string' }
+  }
+
+  value = field.trim ? value.trim() : value
+  const { length } = value as string
+  if (field.minLength !== undefined && length < field.minLength) {
+    return {
+      value,
+      message: field.minLength === 1 ? 'must not be empty' : `must be at least ${field.minLength} characters`,
+    }
+  }
+
+  if (field.maxLength !== undefined && length > field.maxLength) {
+    return { value, message: `must be at most ${field.maxLength} characters` }
+  }
+
+  if (field.enum && !field.enum.includes(value as string)) {
+    return { value, message: `must be one of: ${field.enum.join(', ')}` }
+  }
+
+  if (field.format === 'email' && !emailPattern.test(value as string)) {
+    return { value, message: 'must be a valid email address' }
+  }
+
+  return { value }
+}
+
+function withoutUndefined(schema: JsonSchema): JsonSchema {
+  return Object.fromEntries(Object.entries(schema).filter(([, value]) => value !== undefined))
+}
+
+function fieldToJsonSchema(field: Field): JsonSchema {
+  switch (field.type) {
+    case 'array':
+      return { type: 'array', items: fieldToJsonSchema(field.items), ...(field.unique && { uniqueItems: true }) }
+    case 'boolean':
+      return { type: 'boolean' }
+    case 'number':
+      return withoutUndefined({ type: field.integer ? 'integer' : 'number', minimum: field.min, maximum: field.max })
+    default:
+      return withoutUndefined({
+        type: 'string',
+        minLength: field.minLength,
+        maxLength: field.maxLength,
+        enum: field.enum,
+        format: field.format,
+      })
+  }
+}
+
+/** Describes the fields a schema accepts as JSON Schema, so the API documentation can't drift from validation. */
+export function toJsonSchema<T>(schema: Schema<T>, required: (keyof T & string)[] = []): JsonSchema {
+  const properties = Object.fromEntries(
+    Object.entries(schema).map(([key, field]) => [key, fieldToJsonSchema(field as Field)])
+  )
+  return withoutUndefined({
+    type: 'object',
+    properties,
+    required: required.length ? required : undefined,
+    additionalProperties: false,
+  })
+}
+
+/**
+ * Checks a request body against a schema. Fields that are absent are skipped, so required fields
+ * must be checked separately. String fields come back trimmed where the schema asks for it.
+ */
+export function validate<T>(schema: Schema<T>, body: unknown): { value: Partial<T>; errors: FieldError[] } {
+  if (body === undefined) {
+    return { value: {}, errors: [] }
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { value: {}, errors: [{ field: 'body', message: 'must be an object' }] }
+  }
+
+  const value: Record<string, unknown> = {}
+  const errors: FieldError[] = []
+  for (const [key, fieldValue] of Object.entries(body)) {
+    const field = schema[key as keyof T] as Field | undefined
+    if (!field) {
+      errors.push({ field: key, message: 'is not allowed' })
+      continue
+    }
+
+    if (fieldValue === undefined) {
+      continue
+    }
+
+    const result = validateField(field, fieldValue)
+    if (result.message) {
+      errors.push({ field: key, message: result.message })
+    }
+
+    value[key] = result.value
+  }
+
+  return { value: value as Partial<T>, errors }
+}
@@ -0,0 +1,144 @@
+import type { MatchRanges } from './models'
+
+export type MatchMode = 'substring' | 'prefix' | 'fuzzy'
+
+export const matchModes: MatchMode[] = ['substring', 'prefix', 'fuzzy']
+
+export interface SearchResult<T> {
+  item: T
+  /** Higher is more relevant. Whole-word matches score above prefixes, which score above anything else. */
+  score: number
+  matches: MatchRanges
+}
+
+interface FoldedText {
+  text: string
+  /** Maps each position in `text` to its position in the original string. */
+  positions: number[]
+}
+
+interface TokenMatch {
+  score: number
+  field: string
+  range: [number, number]
+}
+
+const scores = {
+  word: 3,
+  prefix: 2,
+  substring: 1,
+  fuzzy: 1,
+}
+
+/** Folds case and strips accents, keeping track of where each character came from. */
+function fold(value: string): FoldedText {
+  let text = ''
+  const positions: number[] = []
+  for (let i = 0; i < value.length; i++) {
+    const folded = value[i].normalize('NFD').replace(/\p{Diacritic}/gu, '').toLowerCase()
+    text += folded
+    positions.push(...Array.from(folded, () => i))
+  }
+
+  return { text, positions }
+}
+
+function getWords(text: string): [number, number][] {
+  return Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), (match) => [match.index, match.index + match[0].length])
+}
+
+function getMaxEdits(token: string) {
+  return token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0
+}
+
+function getEditDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+function matchToken(token: string, field: string, text: string, mode: MatchMode): TokenMatch[] {
+  const words = getWords(text)
+  const matches: TokenMatch[] = []
+  for (let index = text.indexOf(token); index !== -1; index = text.indexOf(token, index + 1)) {
+    const word = words.find(([start, end]) => start <= index && index < end)
+    const atWordStart = word?.[0] === index
+    if (mode === 'prefix' && !atWordStart) {
+      continue
+    }
+
+    const wholeWord = atWordStart && word?.[1] === index + token.length
+    const score = wholeWord ? scores.word : atWordStart ? scores.prefix : scores.substring
+    matches.push({ score, field, range: [index, index + token.length] })
+  }
+
+  if (mode === 'fuzzy' && !matches.length) {
+    const maxEdits = getMaxEdits(token)
+    for (const [start, end] of words) {
+      if (maxEdits && getEditDistance(token, text.slice(start, end)) <= maxEdits) {
+        matches.push({ score: scores.fuzzy, field, range: [start, end] })
+      }
+    }
+  }
+
+  return matches
+}
+
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+  const merged: [number, number][] = []
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1]
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end)
+    } else {
+      merged.push([start, end])
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Finds the items where every term of `query` matches at least one of `fields`, ignoring case and
+ * accents. Match ranges refer to positions in the original field values.
+ */
+export function fullTextSearch<T extends Record<string, any>>(
+  items: T[],
+  fields: string[],
+  query: string,
+  mode: MatchMode = 'substring'
+): SearchResult<T>[] {
+  const tokens = fold(query).text.split(/\s+/).filter(Boolean)
+  const results: SearchResult<T>[] = []
+  for (const item of items) {
+    const folded = fields.map((field) => ({ field, ...fold(String(item[field] ?? '')) }))
+    const tokenMatches = tokens.map((token) =>
+      folded.flatMap(({ field, text }) => matchToken(token, field, text, mode))
+    )
+    if (tokenMatches.some((matches) => !matches.length)) {
+      continue
+    }
+
+    const score = tokenMatches.reduce((total, matches) => total + Math.max(...matches.map(({ score }) => score)), 0)
+    const matches: MatchRanges = {}
+    for (const { field, positions } of folded) {
+      const ranges = tokenMatches.flat().filter((match) => match.field === field)
+      if (ranges.length) {
+        matches[field] = mergeRanges(
+          ranges.map(({ range: [start, end] }) => [positions[start], positions[end - 1] + 1])
+        )
+      }
+    }
+
+    results.push({ item, score, matches })
+  }
+
+  return results
+}
@@ -0,0 +1,138 @@
+import { test, it } from 'node:test'
+import assert from 'node:assert'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createHash } from 'node:crypto'
+import { createFileStore, createMemoryStore } from './store'
+
+const userId = 'c7deb881-1939-4208-9a63-61a885f02d8f'
+
+await test('Store', async () => {
+  await test('createMemoryStore', async () => {
+    await it('returns copies of stored items', async () => {
+      const store = createMemoryStore()
+      const user = store.users.get(userId)!
+      user.first = 'Max'
+
+      assert.strictEqual(store.users.get(userId)!.first, 'Mark')
+    })
+
+    await it('updates an item', async () => {
+      const store = createMemoryStore()
+      const user = store.users.update(userId, { first: 'Max' })
+
+      assert.strictEqual(user!.first, 'Max')
+      assert.strictEqual(store.users.get(userId)!.first, 'Max')
+    })
+
+    await it('deletes an item', async () => {
+      const store = createMemoryStore()
+      store.users.delete(userId)
+
+      assert.strictEqual(store.users.get(userId), undefined)
+      assert.strictEqual(store.users.list().length, 15)
+    })
+
+    await it('rolls back a failed transaction', async () => {
+      const store = createMemoryStore()
+
+      assert.throws(() =>
+        store.transaction(() => {
+          store.users.delete(userId)
+          throw new Error('Failed')
+        })
+      )
+      assert.strictEqual(store.users.get(userId)!.first, 'Mark')
+    })
+
+    await it('resets to the seed data', async () => {
+      const store = createMemoryStore()
+      store.users.delete(userId)
+      store.reset()
+
+      assert.strictEqual(store.users.list().length, 16)
+    })
+  })
+
+  await test('createFileStore', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'store-'))
+    const path = join(dir, 'data.json')
+
+    await it('persists changes to the file', async () => {
+      const store = createFileStore(path)
+      store.users.update(userId, { first: 'Max' })
+
+      const data = JSON.parse(readFileSync(path, 'utf8'))
+      assert.strictEqual(data.users.find((user: { id: string }) => user.id === userId).first, 'Max')
+    })
+
+    await it('loads existing data from the file', async () => {
+      const store = createFileStore(path)
+
+      assert.strictEqual(store.users.get(userId)!.first, 'Max')
+    })
+
+    await it('persists a transaction once it completes', async () => {
+      const store = createFileStore(path)
+      store.transaction(() => {
+        store.users.delete(userId)
+        assert.ok(readFileSync(path, 'utf8').includes(userId))
+      })
+
+      assert.ok(!readFileSync(path, 'utf8').includes(userId))
+    })
+
+    await it('moves data from before organizations into the default organization', async () => {
+      const { organizations, users, roles } = createMemoryStore().dump()
+      writeFileSync(
+        path,
+        JSON.stringify({ users, roles }, (key, value) => (key === 'organizationId' ? undefined : value))
+      )
+      const store = createFileStore(path)
+
+      assert.deepStrictEqual(store.organizations.list(), [organizations[0]])
+      assert.strictEqual(store.users.get(userId)!.organizationId, organizations[0].id)
+    })
+
+    await it('fills in what data from before permissions, emails and API keys is missing', async () => {
+      const { users, roles, apiKeys } = createMemoryStore().dump()
+      const acmeRoles = roles.filter(({ organizationId }) => organizationId === users[0].organizationId)
+      // The original seed data only had the roles that users belong to
+      const originalRoles = acmeRoles.filter((role) => users.some(({ roleId }) => roleId === role.id))
+      const added = ['organizationId', 'permissions', 'email', 'status']
+      writeFileSync(
+        path,
+        JSON.stringify({ users, roles: originalRoles }, (key, value) => (added.includes(key) ? undefined : value))
+      )
+      const store = createFileStore(path)
+      const user = store.users.get(userId)!
+
+      assert.strictEqual(user.email, 'mark.tipton@example.com')
+      assert.strictEqual(user.status, 'active')
+      assert.deepStrictEqual(
+        store.roles.list().map(({ permissions }) => permissions),
+        acmeRoles.map(({ permissions }) => permissions)
+      )
+      assert.deepStrictEqual(
+        store.apiKeys.list(),
+        apiKeys!.filter(({ roleId }) => acmeRoles.some(({ id }) => id === roleId))
+      )
+    })
+
+    await it('stores the tokens of invitations from before they were hashed as hashes', async () => {
+      const { users, roles } = createMemoryStore().dump()
+      const invitation = { id: 'a1b2c3d4-0000-4000-8000-000000000000', userId, createdAt: users[0].createdAt }
+      writeFileSync(path, JSON.stringify({ users, roles, invitations: [invitation] }))
+      const store = createFileStore(path)
+
+      assert.strictEqual(store.invitations.get(invitation.id), undefined)
+      assert.strictEqual(
+        store.invitations.get(createHash('sha256').update(invitation.id).digest('hex'))?.userId,
+        userId
+      )
+    })
+
+    rmSync(dir, { recursive: true })
+  })
+})
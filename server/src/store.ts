@@ -0,0 +1,253 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs'
+import { dirname } from 'node:path'
+import { createHash } from 'node:crypto'
+import { data as rawData } from './data'
+
+import type { ApiKey, AuditEvent, Invitation, Organization, User, Role } from './models'
+
+export interface StoreData {
+  organizations: Organization[]
+  users: User[]
+  roles: Role[]
+  auditEvents?: AuditEvent[]
+  invitations?: Invitation[]
+  apiKeys?: ApiKey[]
+}
+
+export interface Collection<T extends { id: string }> {
+  get(id: string): T | undefined
+  list(): T[]
+  create(item: T): T
+  update(id: string, changes: Partial<T>): T | undefined
+  delete(id: string): T | undefined
+}
+
+export interface Store {
+  organizations: Collection<Organization>
+  users: Collection<User>
+  roles: Collection<Role>
+  auditEvents: Collection<AuditEvent>
+  invitations: Collection<Invitation>
+  apiKeys: Collection<ApiKey>
+  /**
+   * Runs `fn` as a single unit of work: if it throws, every change made inside it is rolled back,
+   * and persistence happens once when the outermost transaction completes.
+   */
+  transaction<R>(fn: () => R): R
+  /** Replaces the current contents with the seed data. */
+  reset(): void
+  /** Returns a copy of the current contents, which can later be passed to `load`. */
+  dump(): StoreData
+  /** Replaces the current contents with the given data. */
+  load(data: StoreData): void
+}
+
+function cloneData(data: StoreData): Required<StoreData> {
+  return {
+    organizations: data.organizations.map((organization) => ({ ...organization })),
+    users: data.users.map((user) => ({ ...user })),
+    roles: data.roles.map((role) => ({ ...role })),
+    auditEvents: (data.auditEvents ?? []).map((event) => ({ ...event })),
+    invitations: (data.invitations ?? []).map((invitation) => ({ ...invitation })),
+    apiKeys: (data.apiKeys ?? []).map((apiKey) => ({ ...apiKey })),
+  }
+}
+
+function createCollection<T extends { id: string }>(getItems: () => T[], changed: () => void): Collection<T> {
+  // Items are copied on the way in and out so callers can't modify stored state without going through the store
+  return {
+    get(id) {
+      const item = getItems().find((item) => item.id === id)
+      return item && { ...item }
+    },
+    list() {
+      return getItems().map((item) => ({ ...item }))
+    },
+    create(item) {
+      getItems().push({ ...item })
+      changed()
+      return { ...item }
+    },
+    update(id, changes) {
+      const items = getItems()
+      const index = items.findIndex((item) => item.id === id)
+      if (index === -1) {
+        return undefined
+      }
+
+      items[index] = { ...items[index], ...changes, id }
+      changed()
+      return { ...items[index] }
+    },
+    delete(id) {
+      const items = getItems()
+      const index = items.findIndex((item) => item.id === id)
+      if (index === -1) {
+        return undefined
+      }
+
+      const [item] = items.splice(index, 1)
+      changed()
+      return item
+    },
+  }
+}
+
+function createStore(seed: StoreData, initial: StoreData, onChange: (data: StoreData) => void): Store {
+  let state: Required<StoreData> = cloneData(initial)
+  let depth = 0
+
+  function changed() {
+    if (!depth) {
+      onChange(state)
+    }
+  }
+
+  return {
+    organizations: createCollection(() => state.organizations, changed),
+    users: createCollection(() => state.users, changed),
+    roles: createCollection(() => state.roles, changed),
+    auditEvents: createCollection(() => state.auditEvents, changed),
+    invitations: createCollection(() => state.invitations, changed),
+    apiKeys: createCollection(() => state.apiKeys, changed),
+    transaction(fn) {
+      const snapshot = cloneData(state)
+      depth++
+      try {
+        const result = fn()
+        depth--
+        changed()
+        return result
+      } catch (error) {
+        depth--
+        state = snapshot
+        throw error
+      }
+    },
+    reset() {
+      state = cloneData(seed)
+      changed()
+    },
+    dump() {
+      return cloneData(state)
+    },
+    load(data) {
+      state = cloneData(data)
+      changed()
+    },
+  }
+}
+
+export function writeFileAtomic(path: string, contents: string) {
+  // Write to a temporary file and rename it over the target, so a crash mid-write never leaves a truncated file
+  const tempPath = `${path}.${process.pid}.tmp`
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(tempPath, contents)
+  renameSync(tempPath, path)
+}
+
+function addOrganizations(data: StoreData, seed: StoreData): StoreData {
+  if (data.organizations) {
+    return data
+  }
+
+  // Data files written before there were organizations put everything in the default organization of the seed data
+  const organization = seed.organizations.find((organization) => organization.isDefault) as Organization
+  const organizationId = organization.id
+  return {
+    ...data,
+    organizations: [organization],
+    users: data.users.map((user) => ({ ...user, organizationId })),
+    roles: data.roles.map((role) => ({ ...role, organizationId })),
+    auditEvents: data.auditEvents?.map((event) => ({ ...event, organizationId })),
+  }
+}
+
+function addPermissions(data: StoreData, seed: StoreData): StoreData {
+  if (data.roles.every((role) => role.permissions)) {
+    return data
+  }
+
+  // Roles from before permissions get those of the seed role with the same id, and none otherwise
+  return {
+    ...data,
+    roles: data.roles.map((role) => ({
+      ...role,
+      permissions: role.permissions ?? seed.roles.find(({ id }) => id === role.id)?.permissions ?? [],
+    })),
+  }
+}
+
+function addEmailAndStatus(data: StoreData): StoreData {
+  if (data.users.every((user) => user.email && user.status)) {
+    return data
+  }
+
+  // Users from before emails are active, and get an address made from their name, or their id if that one is taken
+  const taken = new Set(data.users.filter((user) => user.email).map((user) => user.email.toLowerCase()))
+  return {
+    ...data,
+    users: data.users.map((user) => {
+      let email = user.email
+      if (!email) {
+        email = `${user.first}.${user.last}@example.com`.toLowerCase().replace(/[^a-z0-9.@-]/g, '')
+        email = taken.has(email) ? `${user.id}@example.com` : email
+        taken.add(email)
+      }
+
+      return { ...user, email, status: user.status ?? 'active' }
+    }),
+  }
+}
+
+function addApiKeys(data: StoreData, seed: StoreData): StoreData {
+  if (data.apiKeys) {
+    return data
+  }
+
+  // Data files from before API keys get the development keys of the seed data, with the roles they act as, so that
+  // changes can still be made with authentication on. Roles whose name is in use are left out, and so are their keys.
+  const names = new Set(data.roles.map((role) => role.name.toLowerCase()))
+  const roles = [...data.roles]
+  for (const { roleId } of seed.apiKeys ?? []) {
+    const role = seed.roles.find(({ id }) => id === roleId)
+    const inData = data.organizations.some(({ id }) => id === role?.organizationId)
+    if (role && inData && !roles.some(({ id }) => id === roleId) && !names.has(role.name.toLowerCase())) {
+      roles.push({ ...role, isDefault: false })
+      names.add(role.name.toLowerCase())
+    }
+  }
+
+  return {
+    ...data,
+    roles,
+    apiKeys: (seed.apiKeys ?? []).filter(({ roleId }) => roles.some(({ id }) => id === roleId)),
+  }
+}
+
+function hashInvitationTokens(data: StoreData): StoreData {
+  // Invitations used to be stored under their token, which is a UUID, while hashes have no dashes
+  return {
+    ...data,
+    invitations: data.invitations?.map((invitation) =>
+      invitation.id.includes('-')
+        ? { ...invitation, id: createHash('sha256').update(invitation.id).digest('hex') }
+        : invitation
+    ),
+  }
+}
+
+/** Brings data files written by earlier versions up to date, filling in what they are missing. */
+function migrateData(data: StoreData, seed: StoreData): StoreData {
+  const migrated = addApiKeys(addEmailAndStatus(addPermissions(addOrganizations(data, seed), seed)), seed)
+  return hashInvitationTokens(migrated)
+}
+
+export function createMemoryStore(seed: StoreData = rawData): Store {
+  return createStore(seed, seed, () => {})
+}
+
+export function createFileStore(path: string, seed: StoreData = rawData): Store {
+  const initial = existsSync(path) ? migrateData(JSON.parse(readFileSync(path, 'utf8')), seed) : seed
+  return createStore(seed, initial, (data) => writeFileAtomic(path, JSON.stringify(data, null, 2)))
+}
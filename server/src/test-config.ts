@@ -0,0 +1,23 @@
+import type { startServer } from './api'
+
+/** Settings for the servers the tests start. Each suite adds a port of its own and overrides the flags it needs. */
+export const testConfig: Omit<Parameters<typeof startServer>[0], 'port'> = {
+  speed: 'instant',
+  requestLogging: false,
+  pageSize: 10,
+  maxPageSize: 15,
+  chanceOfServerError: 0,
+  seed: 1,
+  recordTo: null,
+  replayFrom: null,
+  enableAdminRoutes: true,
+  enableAuth: false,
+  purgeAfter: 0,
+  purgeInterval: 0,
+  idempotencyWindow: 60,
+  rateLimit: {
+    enabled: false,
+    reads: { capacity: 100, refillPerSecond: 10 },
+    writes: { capacity: 20, refillPerSecond: 2 },
+  },
+}